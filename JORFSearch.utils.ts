@@ -1,5 +1,18 @@
 import axios, { AxiosResponse, InternalAxiosRequestConfig } from "axios";
 import umami from "./umami.ts";
+import { functionTagLabel, isFunctionTag } from "./functionTags.ts";
+import {
+  CachePolicy,
+  createCache,
+  createFileStore,
+  createMemoryStore,
+} from "./cache.utils.ts";
+import {
+  createCircuitBreaker,
+  UpstreamUnavailableError,
+  withRetry,
+} from "./resilience.utils.ts";
+import { config } from "./config.ts";
 
 // Extend the InternalAxiosRequestConfig with the res field
 interface CustomInternalAxiosRequestConfig extends InternalAxiosRequestConfig {
@@ -11,6 +24,12 @@ interface CustomInternalAxiosRequestConfig extends InternalAxiosRequestConfig {
 interface JORFSearchItemRaw {
   prenom?: string;
   nom?: string;
+  sexe?: "F" | "M";
+  source_date?: string;
+  type_ordre?: string;
+  organisations?: { nom?: string; wikidata_id?: string }[];
+  // function tags, e.g. prefet: "true"
+  [tag: string]: unknown;
 }
 interface JORFSearchItem extends JORFSearchItemRaw {
   prenom: string;
@@ -21,72 +40,189 @@ type JORFSearchResponse = null | string | JORFSearchItemRaw[];
 
 type WikidataId = string;
 
+export interface JORFPersonIdentity {
+  prenom: string;
+  nom: string;
+  lastDate?: string; // source_date of the latest record
+  lastFunction?: string;
+}
+
+const JORFSEARCH_URL = config.jorfsearch.url;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Results older than their ttl are still served for staleTtl while JORFSearch is down
+const CACHE_POLICIES: Record<"people" | "tag" | "organisation", CachePolicy> = {
+  people: { ttl: 6 * HOUR, negativeTtl: 10 * MINUTE, staleTtl: 7 * 24 * HOUR },
+  tag: { ttl: 6 * HOUR, negativeTtl: 10 * MINUTE, staleTtl: 7 * 24 * HOUR },
+  organisation: {
+    ttl: 24 * HOUR,
+    negativeTtl: 10 * MINUTE,
+    staleTtl: 7 * 24 * HOUR,
+  },
+};
+
+// Per attempt, a hung JORFSearch must not hang the landing page
+const JORFSEARCH_TIMEOUT = config.jorfsearch.timeout;
+
+const JORFSEARCH_RETRY_POLICY = {
+  retries: 2,
+  baseDelay: 200,
+  maxDelay: 2 * SECOND,
+};
+
+const jorfSearchBreaker = createCircuitBreaker({
+  name: "JORFSearch",
+  failureThreshold: 5,
+  resetTimeout: 30 * SECOND,
+});
+
+// Set JORFSEARCH_CACHE_DIR to keep the cache on disk across restarts
+const jorfSearchCache = createCache(
+  config.jorfsearch.cacheDir !== undefined
+    ? createFileStore(config.jorfsearch.cacheDir)
+    : createMemoryStore(),
+);
+
+const isEmptyResult = (items: unknown[]) => items.length === 0;
+
+export function getJORFSearchCacheStats() {
+  return jorfSearchCache.stats();
+}
+
+export function getJORFSearchCircuitStats() {
+  return jorfSearchBreaker.stats();
+}
+
+/*
+ * GET on JORFSearch with a timeout, retries and the circuit breaker. A 4xx
+ * other than 429 answers a query JORFSearch cannot match, such as an odd tag
+ * value: it is not found (data is null) and never opens the circuit. Any
+ * other failure is an UpstreamUnavailableError.
+ */
+async function getJORFSearch<T>(url: string): Promise<AxiosResponse<T | null>> {
+  try {
+    return await jorfSearchBreaker.call(() =>
+      withRetry(async () => {
+        const res = await axios.get<T>(url, {
+          timeout: JORFSEARCH_TIMEOUT,
+          validateStatus: (status) =>
+            status >= 200 && status < 500 && status !== 429,
+        });
+        return res.status >= 400 ? { ...res, data: null } : res;
+      }, JORFSEARCH_RETRY_POLICY),
+    );
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) throw error;
+    throw new UpstreamUnavailableError("JORFSearch", error);
+  }
+}
+
+// Throws an UpstreamUnavailableError when JORFSearch cannot answer
 export async function callJORFSearchPeople(
   peopleName: string,
 ): Promise<JORFSearchItem[]> {
-  try {
-    umami.log({ event: "/jorfsearch-request-people" });
-    return await axios
-      .get<JORFSearchResponse>(
-        encodeURI(
-          `https://jorfsearch.steinertriples.ch/name/${
-            cleanPeopleNameJORFURL(peopleName) // Cleaning the string reduces the number of calls to JORFSearch
-          }?format=JSON`,
-        ),
-      )
-      .then(async (res1: AxiosResponse<JORFSearchResponse>) => {
-        if (res1.data === null) return []; // If an error occurred
-        if (typeof res1.data !== "string") return cleanJORFItems(res1.data); // If it worked
-
-        const request = res1.request as CustomInternalAxiosRequestConfig;
-
-        // If the peopleName had nom/prenom inverted or bad formatting:
-        // we need to call JORFSearch again with the response url in the correct format
-        if (request.res?.responseUrl) {
-          umami.log({ event: "/jorfsearch-request-people-formatted" });
-          return await axios
-            .get<JORFSearchResponse>(
-              request.res.responseUrl.endsWith("?format=JSON")
-                ? request.res.responseUrl
-                : `${request.res.responseUrl}?format=JSON`,
-            )
-            .then((res2: AxiosResponse<JORFSearchResponse>) => {
-              if (res2.data === null || typeof res2.data === "string") {
-                return [];
-              }
-              return cleanJORFItems(res2.data);
-            });
+  return await jorfSearchCache.wrap(
+    "people",
+    cleanPeopleNameJORFURL(peopleName),
+    CACHE_POLICIES.people,
+    isEmptyResult,
+    () => fetchJORFSearchPeople(peopleName),
+  );
+}
+
+async function fetchJORFSearchPeople(
+  peopleName: string,
+): Promise<JORFSearchItem[]> {
+  umami.log({ event: "/jorfsearch-request-people" });
+  return await getJORFSearch<JORFSearchResponse>(
+    `${JORFSEARCH_URL}/name/${encodeURIComponent(
+      cleanPeopleNameJORFURL(peopleName), // Cleaning the string reduces the number of calls to JORFSearch
+    )}?format=JSON`,
+  ).then(async (res1: AxiosResponse<JORFSearchResponse>) => {
+    if (res1.data === null) return []; // If an error occurred
+    if (typeof res1.data !== "string") return cleanJORFItems(res1.data); // If it worked
+
+    const request = res1.request as CustomInternalAxiosRequestConfig;
+
+    // If the peopleName had nom/prenom inverted or bad formatting:
+    // we need to call JORFSearch again with the response url in the correct format
+    if (request.res?.responseUrl) {
+      umami.log({ event: "/jorfsearch-request-people-formatted" });
+      return await getJORFSearch<JORFSearchResponse>(
+        request.res.responseUrl.endsWith("?format=JSON")
+          ? request.res.responseUrl
+          : `${request.res.responseUrl}?format=JSON`,
+      ).then((res2: AxiosResponse<JORFSearchResponse>) => {
+        if (res2.data === null || typeof res2.data === "string") {
+          return [];
         }
-        return [];
+        return cleanJORFItems(res2.data);
       });
-  } catch (error) {
-    console.log(error);
+    }
     return [];
-  }
+  });
 }
 
+// Throws an UpstreamUnavailableError when JORFSearch cannot answer
 export async function callJORFSearchTag(
   tag: string,
   tagValue?: string,
 ): Promise<JORFSearchItem[]> {
-  try {
-    umami.log({ event: "/jorfsearch-request-tag" });
-    return await axios
-      .get<JORFSearchResponse>(
-        encodeURI(
-          `https://jorfsearch.steinertriples.ch/tag/${tag}${
-            tagValue !== undefined ? `="${tagValue}"` : ``
-          }?format=JSON`,
-        ),
-      )
-      .then((res) => {
-        if (res.data === null || typeof res.data === "string") return [];
-        return cleanJORFItems(res.data);
-      });
-  } catch (error) {
-    console.log(error);
-  }
-  return [];
+  return await jorfSearchCache.wrap(
+    "tag",
+    tagCacheKey(tag, tagValue),
+    CACHE_POLICIES.tag,
+    isEmptyResult,
+    () => fetchJORFSearchTag(tag, tagValue),
+  );
+}
+
+function tagCacheKey(tag: string, tagValue?: string): string {
+  return tagValue !== undefined ? `${tag}=${tagValue}` : tag;
+}
+
+async function fetchJORFSearchTag(
+  tag: string,
+  tagValue?: string,
+): Promise<JORFSearchItem[]> {
+  umami.log({ event: "/jorfsearch-request-tag" });
+  return await getJORFSearch<JORFSearchResponse>(
+    `${JORFSEARCH_URL}/tag/${encodeURIComponent(tag)}${
+      tagValue !== undefined ? `=${encodeURIComponent(`"${tagValue}"`)}` : ``
+    }?format=JSON`,
+  ).then((res) => {
+    if (res.data === null || typeof res.data === "string") return [];
+    return cleanJORFItems(res.data);
+  });
+}
+
+/*
+ * Results of an earlier call still fresh in the cache, undefined otherwise.
+ * These never call JORFSearch, for requests that must stay cheap.
+ */
+export async function peekJORFSearchPeople(
+  peopleName: string,
+): Promise<JORFSearchItem[] | undefined> {
+  return await jorfSearchCache.peek(
+    "people",
+    cleanPeopleNameJORFURL(peopleName),
+  );
+}
+
+export async function peekJORFSearchTag(
+  tag: string,
+  tagValue?: string,
+): Promise<JORFSearchItem[] | undefined> {
+  return await jorfSearchCache.peek("tag", tagCacheKey(tag, tagValue));
+}
+
+export async function peekJORFSearchOrganisation(
+  wikidataId: WikidataId,
+): Promise<{ name: string; id: WikidataId }[] | undefined> {
+  return await jorfSearchCache.peek("organisation", wikidataId);
 }
 
 export function cleanPeopleNameJORFURL(input: string): string {
@@ -107,21 +243,27 @@ export function cleanPeopleNameJORFURL(input: string): string {
   return out;
 }
 
+// Throws an UpstreamUnavailableError when JORFSearch cannot answer
 export async function callJORFSearchOrganisationByWikidataId(
   wikidataId: WikidataId,
 ): Promise<{ name: string; id: WikidataId }[]> {
-  try {
-    return await axios
-      .get<
-        { name: string; id: WikidataId }[]
-      >(encodeURI(`https://jorfsearch.steinertriples.ch/wikidata_id_to_name?ids[]=${wikidataId}`))
-      .then((r) => {
-        return r.data;
-      });
-  } catch (error) {
-    console.log(error);
-  }
-  return [];
+  return await jorfSearchCache.wrap(
+    "organisation",
+    wikidataId,
+    CACHE_POLICIES.organisation,
+    isEmptyResult,
+    () => fetchJORFSearchOrganisationByWikidataId(wikidataId),
+  );
+}
+
+async function fetchJORFSearchOrganisationByWikidataId(
+  wikidataId: WikidataId,
+): Promise<{ name: string; id: WikidataId }[]> {
+  return await getJORFSearch<{ name: string; id: WikidataId }[]>(
+    encodeURI(`${JORFSEARCH_URL}/wikidata_id_to_name?ids[]=${wikidataId}`),
+  ).then((r) => {
+    return r.data ?? [];
+  });
 }
 
 function cleanJORFItems(raw_items: JORFSearchItemRaw[]): JORFSearchItem[] {
@@ -131,3 +273,49 @@ function cleanJORFItems(raw_items: JORFSearchItemRaw[]): JORFSearchItem[] {
     return tab;
   }, []);
 }
+
+// Distinct prenom/nom pairs among the records, with their latest known function
+export function listJORFPeopleIdentities(
+  items: JORFSearchItem[],
+): JORFPersonIdentity[] {
+  const latestRecords = new Map<string, JORFSearchItem>();
+  for (const item of items) {
+    const key = `${item.prenom} ${item.nom}`;
+    const latest = latestRecords.get(key);
+    if (
+      latest === undefined ||
+      (item.source_date ?? "") > (latest.source_date ?? "")
+    )
+      latestRecords.set(key, item);
+  }
+
+  return [...latestRecords.values()].map((item) => {
+    const tag = Object.keys(item).find(isFunctionTag);
+    const functionLabel =
+      tag !== undefined
+        ? functionTagLabel(tag, item.sexe === "F" ? "feminine" : "masculine")
+        : item.type_ordre;
+    const organisation = item.organisations?.[0]?.nom;
+    return {
+      prenom: item.prenom,
+      nom: item.nom,
+      lastDate: item.source_date,
+      lastFunction:
+        functionLabel !== undefined && organisation !== undefined
+          ? `${functionLabel}, ${organisation}`
+          : (functionLabel ?? organisation),
+    };
+  });
+}
+
+export function findJORFPersonIdentity(
+  identities: JORFPersonIdentity[],
+  query: string,
+): JORFPersonIdentity | undefined {
+  const cleanQuery = cleanPeopleNameJORFURL(query);
+  return identities.find(
+    (identity) =>
+      cleanPeopleNameJORFURL(`${identity.prenom} ${identity.nom}`) ===
+      cleanQuery,
+  );
+}
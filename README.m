@@ -1,13 +1,88 @@
 # Environment variables
 
-The server expects the following configuration values to be present:
+Settings are loaded and validated by `config.ts` at startup: the server refuses to start and lists every
+invalid or missing value. Empty values are treated as unset.
 
-- `APP_DOMAIN`
-- `PORT`
+- `PORT` – Port to listen on, 3000 by default (8080 when `NODE_ENV=development`).
+- `APP_URL` – Public URL of this server, encoded in the QR codes. `APP_DOMAIN` is a shorthand for
+  `https://APP_DOMAIN`. Defaults to `https://links.joel-officiel.fr` (`http://localhost:PORT` in development).
+- `HOME_WEBSITE_URL` – Website visitors are sent to without a follow target, and linked from the pages, `https://joel-officiel.fr` by default.
+- `UMAMI_HOST`, `UMAMI_ID` – Umami website receiving the events, required outside development
+  unless `STATS_ENABLED` is set. The pages load the tracker script from `https://UMAMI_HOST/script.js`.
 
 At least one of the following messenger configurations must also be provided:
 
 - `TELEGRAM_BOT_NAME`
-- `WHATSAPP_PHONE_NUMBER`
-- `MATRIX_BOT_LINK` – Base Matrix link that will have the start command appended to it
-  (for example `https://matrix.to/#/@joelbot:example?message=`).
+- `WHATSAPP_BOT_PHONE_NUMBER`
+- `MATRIX_BOT_USERNAME` – Matrix user of the bot, for example `joelbot:matrix.org`
+- `TCHAP_BOT_USERNAME` – Tchap user of the bot
+- `SIGNAL_BOT_PHONE_NUMBER` – Phone number of the Signal bot in international format (for example `+33612345678`).
+
+`WHATSAPP_PHONE_NUMBER` is still read when `WHATSAPP_BOT_PHONE_NUMBER` is unset, with a deprecation warning.
+
+Signal, Matrix and Tchap links cannot pre-fill a message, so the landing page copies the start command to the
+clipboard when their button is clicked. `/matrix` and `/tchap` accept the follow parameters of `/` (`name`,
+`organisation_id`, `function_tag`…) and show a page to copy the command before opening the chat.
+
+Messengers are declared in `messengers.ts`: each provider lists its configuration keys, icon, display order
+and link builder, from which the landing page buttons, the `/<messenger>` redirect routes and their Umami
+events are generated.
+
+Links to `/` are previewed by social networks and messaging apps through Open Graph and Twitter Card tags. Their
+image, `/og-image`, takes the follow parameters of `/` and renders a 1200×630 card with the label and the QR code
+of the page: the `social_card` template of `/qrcode`.
+
+Optional settings:
+
+- `JORFSEARCH_CACHE_DIR` – Directory where JORFSearch lookups are cached on disk.
+  Expired lookups are removed from it as new ones are written, and it keeps at most 5000 of them.
+  When unset, lookups are cached in memory. Cache hit rates for these lookups and for rendered QR
+  images are exposed on `/status/cache`.
+- `JORFSEARCH_URL` – Base URL of JORFSearch, `https://jorfsearch.steinertriples.ch` by default.
+- `UMAMI_URL` – Base URL of the Umami instance, `https://UMAMI_HOST` by default.
+- `STATS_ENABLED` – Count the events locally (`true` or `false`), along with Umami or instead of it, served as JSON on `/stats`. Counts are
+  aggregated by event, by source and, for the messenger buttons, by target: nothing about the visitors is kept.
+- `STATS_FILE` – JSON file where the local counts are saved and read back at startup, implies `STATS_ENABLED`.
+  When unset, counts are kept in memory.
+- `ASSETS_DIR` – Directory of the HTML pages, icons and stylesheet, the install directory by default. `FRAME_IMAGE_PATH`,
+  `LOGO_PATH` and `CAPTION_FONT_PATH`, relative to it, replace `frame.png`, `logo_round.png` and
+  `DejaVuSans-Bold.ttf` for a white-labelled instance.
+- `JORFSEARCH_TIMEOUT_MS` – Timeout of each JORFSearch attempt, 5000 by default. Failed calls are retried twice
+  with backoff; after 5 consecutive failures the circuit opens and JORFSearch is left alone for 30 seconds. While it
+  is unavailable, expired cached results are served for up to a week, otherwise the landing page shows a page to
+  try again (503). The circuit state is exposed on `/status/upstream`.
+- `RATE_LIMIT_PER_IP`, `RATE_LIMIT_GLOBAL` – Requests per minute to `/qrcode`, per client and for all clients
+  (60 and 600 by default), and the same budget apart for `POST /click`. `RATE_LIMIT_BATCH_PER_IP` and
+  `RATE_LIMIT_BATCH_GLOBAL` do the same for `/qrcode/batch` and `/qrcode/sheet` (5 and 30),
+  `RATE_LIMIT_OG_IMAGE_PER_IP` and `RATE_LIMIT_OG_IMAGE_GLOBAL` for `/og-image` (30 and 300), and
+  `RATE_LIMIT_SEARCH_PER_IP` and `RATE_LIMIT_SEARCH_GLOBAL` for `/api/search` (30 and 300). Responses carry the
+  `RateLimit-*` headers, and a 429 once a budget is spent.
+- `RATE_LIMIT_ALLOWLIST` – Comma-separated addresses or IPv4 ranges (`10.0.0.0/8`) of trusted callers that are never
+  limited.
+- `TRUST_PROXY` – Number of reverse proxies, or their comma-separated addresses, CIDR ranges or `loopback`,
+  `linklocal` and `uniquelocal` (`loopback, 10.0.0.1`), so that the client address
+  is read from `X-Forwarded-For`. Set it behind a reverse proxy, such as the one in front of the Docker container:
+  unset, every client shares the rate limit of the proxy, and a warning is logged at startup.
+- `RENDER_CONCURRENCY`, `RENDER_MAX_QUEUE` – Images rendered at once (the number of CPUs by default) and renders
+  allowed to wait for a slot (50) before answering 503.
+
+# Attribution
+
+Links and QR codes take an optional `src` parameter naming the poster or campaign they were shared on
+(`affiche-metro`, `tract_2025.06`: letters, digits, dots, hyphens and underscores). `/qrcode`, `/qrcode/batch` and
+`/qrcode/sheet` keep it in the link they encode, and the builder has a field for it. The source is sent as Umami
+event data with the follow type and target on `/` and `/qrcode`, and on the `/<messenger>` redirects. The landing
+page buttons report which messenger was chosen for which target to `POST /click`, as a `/click-<messenger>` event.
+Only canonical targets that JORFSearch returned lately, as found in its cache, are counted.
+
+# Languages
+
+Pages, error messages and the frame of the QR codes are in French, or in English for clients that prefer it
+(`Accept-Language`) or ask for it with `lang=en`. Translations are stored in `locales/`, one catalogue per language
+with the messages of `locales/fr.json`. The start commands (`Rechercher`, `SuivreO`…) are keywords of the bot and
+are not translated, only the greeting sent before them.
+
+# Tests
+
+`npm test` boots the app against a local stand-in for JORFSearch and Umami (`test/fakeUpstream.ts`), so no
+network access is needed. The generated QR codes are decoded back to check the link they encode.
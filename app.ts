@@ -0,0 +1,1276 @@
+import express from "express";
+import path from "path";
+import {
+  callJORFSearchOrganisationByWikidataId,
+  callJORFSearchPeople,
+  cleanPeopleNameJORFURL,
+  getJORFSearchCacheStats,
+  getJORFSearchCircuitStats,
+  JORFPersonIdentity,
+  listJORFPeopleIdentities,
+} from "./JORFSearch.utils.ts";
+import umami, { EventData, setLocalStats } from "./umami.ts";
+import {
+  followError,
+  followParams,
+  FollowError,
+  FollowErrorCode,
+  FollowQuery,
+  FollowTarget,
+  FollowType,
+  isFollowError,
+  isKnownFollowTarget,
+  parseFollowQuery,
+  parseSource,
+  resolveFollowTarget,
+} from "./followTarget.ts";
+import { Messenger, MESSENGER_PROVIDERS } from "./messengers.ts";
+import { functionTagLabel, searchFunctionTags } from "./functionTags.ts";
+import fs from "fs/promises";
+import {
+  getRenderCacheStats,
+  isOutputFormat,
+  MAX_OUTPUT_SIZE,
+  MIN_OUTPUT_SIZE,
+  OUTPUT_CONTENT_TYPES,
+  OUTPUT_FORMATS,
+  RENDER_CACHE_CONTROL,
+  renderEtag,
+  renderQrCodeCached,
+} from "./render.utils.ts";
+import { parseQrStyle } from "./style.utils.ts";
+import {
+  DEFAULT_FRAME_TEMPLATE,
+  FRAME_TEMPLATES,
+  isFrameTemplate,
+} from "./frame.utils.ts";
+import {
+  BatchEntry,
+  buildBatchArchive,
+  mapWithConcurrency,
+} from "./batch.utils.ts";
+import {
+  buildSheetPdf,
+  buildSheetSvg,
+  isSheetFormat,
+  parseSheetLayout,
+  SHEET_FORMATS,
+  SheetCell,
+  sheetCapacity,
+} from "./sheet.utils.ts";
+import { isUpstreamUnavailable } from "./resilience.utils.ts";
+import { createStatsCounter } from "./stats.utils.ts";
+import {
+  ConcurrencyLimitError,
+  createRateLimiter,
+  rateLimit,
+} from "./limits.utils.ts";
+import { config } from "./config.ts";
+import {
+  compileTemplate,
+  escapeHtml,
+  joinHtml,
+  SafeHtml,
+  trustedHtml,
+} from "./template.utils.ts";
+import {
+  contentSecurityPolicy,
+  securityHeaders,
+  SVG_CONTENT_SECURITY_POLICY,
+} from "./security.utils.ts";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  localeNegotiation,
+  MessageKey,
+  translate,
+  translateMessage,
+} from "./i18n.utils.ts";
+
+export const app = express();
+
+const {
+  appUrl: APP_URL,
+  homeWebsiteUrl: HOME_WEBSITE_URL,
+  messengers,
+  limits,
+} = config;
+
+function pageTitle(locale: Locale, name: string): string {
+  return translate(locale, "page.title_with_name", { NAME: name });
+}
+
+// Shown by link previews along with the title and the /og-image card
+function pageDescription(locale: Locale, name: string): string {
+  return translate(locale, "page.description_with_name", { NAME: name });
+}
+
+// JSON error in the locale of the response
+function errorBody(
+  res: express.Response,
+  key: MessageKey,
+  values?: Record<string, string>,
+): { error: string } {
+  return { error: translate(res.locals.locale, key, values) };
+}
+
+// Links between pages keep a locale chosen with the lang parameter
+function localeParam(locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? "" : `&lang=${locale}`;
+}
+
+// Links opened from a QR code keep its source
+function sourceParam(source?: string): string {
+  return source !== undefined ? `&src=${encodeURIComponent(source)}` : "";
+}
+
+// Event data of a follow target, with the source of the link
+function targetEventData({
+  followType,
+  followArg,
+  source,
+}: Pick<FollowQuery, "followType" | "followArg" | "source">): EventData {
+  return { followType, target: followArg, source };
+}
+
+// Pre-filled message: the greeting, then the start command when there is one
+function startMessage(locale: Locale, command?: string): string {
+  const greeting = translate(locale, "command.greeting");
+  return command !== undefined ? `${greeting} ${command}` : greeting;
+}
+
+async function readPage(fileName: string): Promise<string> {
+  return await fs.readFile(path.join(config.assets.dir, fileName), "utf8");
+}
+
+// Umami tracker of the pages, left out when Umami is not configured
+const ANALYTICS_BLOCK =
+  config.umami !== undefined
+    ? trustedHtml(
+        `<script async src="${escapeHtml(`https://${config.umami.host}/script.js`)}"` +
+          ` data-website-id="${escapeHtml(config.umami.id)}"></script>`,
+      )
+    : trustedHtml("");
+
+// Pages are checked against their placeholders at startup
+const INDEX_PAGE_SOURCE = await readPage("main.html");
+const renderIndexPage = compileTemplate("main.html", INDEX_PAGE_SOURCE, [
+  "LANG",
+  "ANALYTICS_BLOCK",
+  "HOME_LINK",
+  "OG_LOCALE",
+  "PAGE_TITLE",
+  "PAGE_DESCRIPTION",
+  "CANONICAL_URL",
+  "OG_IMAGE_URL",
+  "NAV_FEATURES",
+  "NAV_TEAM",
+  "HEADLINE",
+  "FOLLOW_LABEL",
+  "INTRO",
+  "QRCODE_BLOCK",
+  "MESSENGER_BLOCKS",
+  "LEARN_MORE",
+  "PRIVACY_POLICY",
+  "TERMS_OF_USE",
+  "FOOTER_NOTE",
+]);
+
+const DISAMBIGUATION_PAGE_SOURCE = await readPage("disambiguation.html");
+const renderDisambiguationPage = compileTemplate(
+  "disambiguation.html",
+  DISAMBIGUATION_PAGE_SOURCE,
+  ["LANG", "PAGE_TITLE", "HEADLINE", "QUERY", "INTRO", "CANDIDATES_BLOCK"],
+);
+
+const MESSENGER_PAGE_SOURCE = await readPage("messenger.html");
+const renderMessengerPage = compileTemplate(
+  "messenger.html",
+  MESSENGER_PAGE_SOURCE,
+  [
+    "LANG",
+    "PAGE_TITLE",
+    "HEADLINE_BEFORE",
+    "FOLLOW_LABEL",
+    "HEADLINE_AFTER",
+    "INTRO",
+    "COMMAND_LABEL",
+    "COMMAND",
+    "COPY",
+    "COPIED",
+    "LINK",
+    "COPY_AND_OPEN",
+  ],
+);
+
+const UNAVAILABLE_PAGE_SOURCE = await readPage("unavailable.html");
+const renderUnavailablePage = compileTemplate(
+  "unavailable.html",
+  UNAVAILABLE_PAGE_SOURCE,
+  [
+    "LANG",
+    "PAGE_TITLE",
+    "HEADLINE",
+    "INTRO_BEFORE",
+    "QUERY",
+    "INTRO_AFTER",
+    "RETRY_LINK",
+    "RETRY",
+  ],
+);
+
+const BUILDER_PAGE_SOURCE = await readPage("builder.html");
+const BUILDER_PAGE = compileTemplate("builder.html", BUILDER_PAGE_SOURCE, [
+  "HOME_LINK",
+])({ HOME_LINK: HOME_WEBSITE_URL }).html;
+
+const ERROR_PAGE_SOURCE = await readPage("error.html");
+const renderErrorPage = compileTemplate("error.html", ERROR_PAGE_SOURCE, [
+  "LANG",
+  "PAGE_TITLE",
+  "HEADLINE",
+  "EXPLANATION",
+  "HINT",
+  "SEARCH_LABEL",
+  "QUERY",
+  "SEARCH_PLACEHOLDER",
+  "SEARCH_BUTTON",
+  "HOME_LINK",
+  "HOME_LABEL",
+]);
+
+// Seconds before retrying when JORFSearch is unavailable
+const UPSTREAM_RETRY_AFTER = 30;
+
+// QR code of the page, hidden on mobile
+const renderQrCodeBlock = compileTemplate(
+  "QRCODE_BLOCK",
+  `
+          <div
+              class="max-w-md mx-auto mt-5 sm:flex sm:justify-center md:mt-8"
+          >
+          <img id="qrcode" class="qrcode" alt="QR code" src="{QRCODE_URL}" />
+              </div>`,
+  ["QRCODE_URL"],
+);
+
+/*
+ * Button of a messenger, the command is copied when the link cannot carry it.
+ * Clicks are counted by a beacon to the click URL.
+ */
+const renderMessengerBlock = compileTemplate(
+  "MESSENGER_BLOCK",
+  `<div class="mt-3 rounded-md shadow sm:mt-0 sm:ml-3">
+                  <a
+                    id="{MESSENGER_ID}-link"
+                    class="app"
+                    href="{MESSENGER_LINK}"
+                    data-command="{MESSENGER_COMMAND}"
+                    data-click-url="{MESSENGER_CLICK_URL}"
+                    title="{MESSENGER_HINT}"
+                    aria-label="{MESSENGER_LABEL}"
+                  >
+                    <img
+                      src="{MESSENGER_ICON}"
+                      alt=""
+                      class="w-full h-full object-contain"
+                      loading="lazy"
+                      decoding="async"
+                      draggable="false"
+                    />
+                  </a>
+                </div>`,
+  [
+    "MESSENGER_ID",
+    "MESSENGER_CLICK_URL",
+    "MESSENGER_LINK",
+    "MESSENGER_COMMAND",
+    "MESSENGER_HINT",
+    "MESSENGER_LABEL",
+    "MESSENGER_ICON",
+  ],
+);
+
+// Person of the disambiguation page
+const renderCandidateBlock = compileTemplate(
+  "CANDIDATE_BLOCK",
+  `<li>
+              <a href="{LINK}" class="block px-4 py-3 bg-white rounded-md shadow hover:bg-gray-50">
+                <span class="block text-lg font-medium text-gray-900">{NAME}</span>
+                <span class="block text-base text-gray-500">{DETAILS}</span>
+              </a>
+            </li>`,
+  ["LINK", "NAME", "DETAILS"],
+);
+
+// Optional first-party counters of the events, served on /stats
+const localStats =
+  config.stats !== undefined
+    ? await createStatsCounter(config.stats)
+    : undefined;
+setLocalStats(localStats);
+
+const APP_URL_QR = APP_URL + "/qrcode";
+const APP_URL_OG_IMAGE = APP_URL + "/og-image";
+
+// Behind a reverse proxy, so that req.ip is the client
+if (limits.trustProxy !== undefined) app.set("trust proxy", limits.trustProxy);
+
+app.use(
+  securityHeaders({
+    contentSecurityPolicy: contentSecurityPolicy({
+      pages: [
+        INDEX_PAGE_SOURCE,
+        DISAMBIGUATION_PAGE_SOURCE,
+        MESSENGER_PAGE_SOURCE,
+        UNAVAILABLE_PAGE_SOURCE,
+        ERROR_PAGE_SOURCE,
+        BUILDER_PAGE_SOURCE,
+        ANALYTICS_BLOCK.html,
+      ],
+      imageUrls: messengers.map(({ icon }) => icon),
+      appUrl: APP_URL,
+    }),
+    https: APP_URL.startsWith("https:"),
+  }),
+);
+
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+// Requests per minute rendering a single image
+const qrRateLimit = rateLimit({
+  perClient: createRateLimiter({
+    limit: limits.perIp,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  global: createRateLimiter({
+    limit: limits.global,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  allowlist: limits.allowlist,
+});
+
+// Link previews fetch the card of each shared page
+const ogImageRateLimit = rateLimit({
+  perClient: createRateLimiter({
+    limit: limits.ogImagePerIp,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  global: createRateLimiter({
+    limit: limits.ogImageGlobal,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  allowlist: limits.allowlist,
+});
+
+// Batches and sheets render up to BATCH_MAX_TARGETS images each
+const batchRateLimit = rateLimit({
+  perClient: createRateLimiter({
+    limit: limits.batchPerIp,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  global: createRateLimiter({
+    limit: limits.batchGlobal,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  allowlist: limits.allowlist,
+});
+
+// Each search may call JORFSearch up to three times
+const searchRateLimit = rateLimit({
+  perClient: createRateLimiter({
+    limit: limits.searchPerIp,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  global: createRateLimiter({
+    limit: limits.searchGlobal,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  allowlist: limits.allowlist,
+});
+
+// Beacons of the landing page buttons, one per click
+const clickRateLimit = rateLimit({
+  perClient: createRateLimiter({
+    limit: limits.perIp,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  global: createRateLimiter({
+    limit: limits.global,
+    windowMs: RATE_LIMIT_WINDOW,
+  }),
+  allowlist: limits.allowlist,
+});
+
+// Seconds before retrying when every rendering slot is taken
+const RENDER_RETRY_AFTER = 5;
+
+app.use(express.static(config.assets.dir));
+app.use(localeNegotiation());
+
+// API endpoint: /api/qrcode?url=https://example.com&template=poster_a4&size=2480&format=pdf&preset=tchap
+app.get("/qrcode", qrRateLimit, async (req, res) => {
+  try {
+    // Output width: of the QR alone, or of the whole frame composition
+    let size: number | undefined;
+    if (req.query.size != undefined) {
+      size = Number(req.query.size);
+      if (
+        !Number.isInteger(size) ||
+        size < MIN_OUTPUT_SIZE ||
+        size > MAX_OUTPUT_SIZE
+      )
+        return res.status(400).json(
+          errorBody(res, "error.size_bounds", {
+            MIN: String(MIN_OUTPUT_SIZE),
+            MAX: String(MAX_OUTPUT_SIZE),
+          }),
+        );
+    }
+
+    let frameEnabled = true;
+    if (req.query.frame != undefined && req.query.frame === "false")
+      frameEnabled = false;
+
+    // Frame template: classic (default), poster_a4, flyer_a6, business_card…
+    const template = (req.query.template ?? DEFAULT_FRAME_TEMPLATE) as string;
+    if (!isFrameTemplate(template))
+      return res.status(400).json(
+        errorBody(res, "error.template_values", {
+          VALUES: Object.keys(FRAME_TEMPLATES).join(", "),
+        }),
+      );
+    if (req.query.template != undefined && !frameEnabled)
+      return res
+        .status(400)
+        .json(errorBody(res, "error.template_requires_frame"));
+
+    // Output format: png (default), webp, svg, pdf
+    const format = (req.query.format ?? "png") as string;
+    if (!isOutputFormat(format))
+      return res.status(400).json(
+        errorBody(res, "error.format_values", {
+          VALUES: OUTPUT_FORMATS.join(", "),
+        }),
+      );
+
+    // Styling: preset, dark, light, margin, logo, logo_scale, ecl, style
+    const style = parseQrStyle(req.query);
+    if ("error" in style)
+      return res
+        .status(400)
+        .json({ error: translateMessage(res.locals.locale, style.error) });
+
+    // Follow target: name, organisation_id or function_tag
+    const query = parseFollowQuery(req.query);
+    if (query === undefined)
+      return res.status(400).json({
+        code: "invalid_parameter",
+        ...errorBody(res, "error.target_required"),
+      });
+    if (isFollowError(query)) return sendFollowError(res, query);
+
+    const target = await resolveFollowTarget(query);
+    if (isFollowError(target)) return sendFollowError(res, target);
+    const { followType, followLabel } = target;
+    const qr_url = followUrls(target.params, target.source).link_url;
+
+    const renderOptions = {
+      format,
+      frameEnabled,
+      template: frameEnabled ? template : undefined,
+      followLabel,
+      // The frame prefix is the only text of the image
+      locale: frameEnabled ? res.locals.locale : undefined,
+      size,
+      ...style,
+    };
+
+    await sendRenderedImage(
+      req,
+      res,
+      renderEtag(qr_url, renderOptions),
+      {
+        "Content-Type": OUTPUT_CONTENT_TYPES[format],
+        ...(format === "svg" && {
+          "Content-Security-Policy": SVG_CONTENT_SECURITY_POLICY,
+        }),
+      },
+      () => renderQrCodeCached(qr_url, renderOptions),
+    );
+
+    if (!frameEnabled) return;
+
+    const data = targetEventData(target);
+    switch (followType) {
+      case "people":
+        umami.log({ event: "/qr-people", data });
+        break;
+      case "organisation":
+        umami.log({ event: "/qr-organisation", data });
+        break;
+      case "function_tag":
+        umami.log({ event: "/qr-tag", data });
+        break;
+    }
+  } catch (err) {
+    if (err instanceof ConcurrencyLimitError) return sendBusy(res);
+    console.error("QR API error:", err);
+    res.status(500).json(errorBody(res, "error.qrcode_failed"));
+  }
+});
+
+// Link preview card: /og-image?name=Jean Dupont, referenced by the meta tags of "/"
+app.get("/og-image", ogImageRateLimit, async (req, res) => {
+  try {
+    const query = parseFollowQuery(req.query);
+    if (query === undefined)
+      return res.status(400).json({
+        code: "invalid_parameter",
+        ...errorBody(res, "error.target_required"),
+      });
+    if (isFollowError(query)) return sendFollowError(res, query);
+
+    const target = await resolveFollowTarget(query);
+    if (isFollowError(target)) return sendFollowError(res, target);
+    const { link_url } = followUrls(target.params);
+
+    // Same composition as /qrcode?template=social_card, the QR opens the page
+    const renderOptions = {
+      format: "png" as const,
+      frameEnabled: true,
+      template: "social_card" as const,
+      followLabel: target.followLabel,
+      locale: res.locals.locale,
+    };
+
+    await sendRenderedImage(
+      req,
+      res,
+      renderEtag(link_url, renderOptions),
+      { "Content-Type": OUTPUT_CONTENT_TYPES.png },
+      () => renderQrCodeCached(link_url, renderOptions),
+    );
+
+    umami.log({ event: "/og-image" });
+  } catch (err) {
+    if (err instanceof ConcurrencyLimitError) return sendBusy(res);
+    console.error("Preview card error:", err);
+    res.status(500).json(errorBody(res, "error.preview_card_failed"));
+  }
+});
+
+/*
+ * Cacheable image, or a 304 when If-None-Match matches its ETag. The image
+ * headers are only set once it is rendered, so that errors are sent as JSON
+ * and never cached.
+ */
+async function sendRenderedImage(
+  req: express.Request,
+  res: express.Response,
+  etag: string,
+  headers: Record<string, string>,
+  render: () => Promise<Buffer>,
+) {
+  // req.fresh compares If-None-Match with the ETag of the response
+  res.set("ETag", etag);
+  if (req.fresh) {
+    res.set("Cache-Control", RENDER_CACHE_CONTROL);
+    res.status(304).end();
+    return;
+  }
+  res.removeHeader("ETag");
+
+  const image = await render();
+  res.set({ ...headers, "Cache-Control": RENDER_CACHE_CONTROL, ETag: etag });
+  res.send(image);
+}
+
+// Every rendering slot is taken and the queue is full
+function sendBusy(res: express.Response) {
+  res.set("Retry-After", String(RENDER_RETRY_AFTER));
+  return res.status(503).json(errorBody(res, "error.render_busy"));
+}
+
+// Structured error of the follow parameters, as JSON
+function sendFollowError(res: express.Response, followError: FollowError) {
+  const { status, code, message, ...details } = followError;
+  if (status === 503) res.set("Retry-After", String(UPSTREAM_RETRY_AFTER));
+  return res.status(status).json({
+    code,
+    error: translateMessage(res.locals.locale, message),
+    ...details,
+  });
+}
+
+// Pages opened from a QR code get a page to retry rather than JSON
+function sendUnavailablePage(
+  req: express.Request,
+  res: express.Response,
+  query: string,
+) {
+  const { locale } = res.locals;
+  res.set("Retry-After", String(UPSTREAM_RETRY_AFTER));
+  res
+    .status(503)
+    .type("html")
+    .send(
+      renderUnavailablePage({
+        LANG: locale,
+        PAGE_TITLE: pageTitle(locale, query),
+        HEADLINE: translate(locale, "unavailable.headline"),
+        INTRO_BEFORE: translate(locale, "unavailable.intro_before"),
+        QUERY: query,
+        INTRO_AFTER: translate(locale, "unavailable.intro_after"),
+        RETRY_LINK: req.originalUrl,
+        RETRY: translate(locale, "unavailable.retry"),
+      }).html,
+    );
+}
+
+// Browsers ask for HTML first, API clients and fetch() accept anything: JSON
+function acceptsHtml(req: express.Request): boolean {
+  return req.accepts(["json", "html"]) === "html";
+}
+
+// Headline of the error page of each follow error
+const ERROR_PAGE_HEADLINES: Record<FollowErrorCode, MessageKey> = {
+  invalid_parameter: "error_page.invalid",
+  exclusive_parameters: "error_page.invalid",
+  unknown_function_tag: "error_page.invalid",
+  verification_required: "error_page.invalid",
+  not_found: "error_page.not_found",
+  ambiguous: "error_page.ambiguous",
+  upstream_unavailable: "unavailable.headline",
+};
+
+// Error page with a search box to try another name, and a link to the website
+function sendErrorPage(
+  req: express.Request,
+  res: express.Response,
+  status: number,
+  headline: MessageKey,
+  explanation: string,
+) {
+  const { locale } = res.locals;
+  const { name } = req.query;
+  const headlineText = translate(locale, headline);
+  res
+    .status(status)
+    .type("html")
+    .send(
+      renderErrorPage({
+        LANG: locale,
+        PAGE_TITLE: translate(locale, "error_page.title", {
+          HEADLINE: headlineText,
+        }),
+        HEADLINE: headlineText,
+        EXPLANATION: explanation,
+        HINT: translate(locale, "error_page.hint"),
+        SEARCH_LABEL: translate(locale, "error_page.search_label"),
+        QUERY: typeof name === "string" ? name : "",
+        SEARCH_PLACEHOLDER: translate(locale, "error_page.search_placeholder"),
+        SEARCH_BUTTON: translate(locale, "error_page.search_button"),
+        HOME_LINK: HOME_WEBSITE_URL,
+        HOME_LABEL: translate(locale, "error_page.home"),
+      }).html,
+    );
+}
+
+// Follow error of a page: HTML for browsers, JSON for API clients
+function sendFollowErrorPage(
+  req: express.Request,
+  res: express.Response,
+  followError: FollowError,
+  followArg?: string,
+) {
+  if (!acceptsHtml(req)) return sendFollowError(res, followError);
+  if (followError.code === "upstream_unavailable" && followArg !== undefined) {
+    sendUnavailablePage(req, res, followArg);
+    return;
+  }
+  if (followError.status === 503)
+    res.set("Retry-After", String(UPSTREAM_RETRY_AFTER));
+  sendErrorPage(
+    req,
+    res,
+    followError.status,
+    ERROR_PAGE_HEADLINES[followError.code],
+    translateMessage(res.locals.locale, followError.message),
+  );
+}
+
+// Unexpected failure of a page
+function sendPageFailure(req: express.Request, res: express.Response) {
+  if (!acceptsHtml(req))
+    return res.status(500).json(errorBody(res, "error.page_failed"));
+  sendErrorPage(
+    req,
+    res,
+    500,
+    "error_page.failed",
+    translate(res.locals.locale, "error_page.failed_explanation"),
+  );
+}
+
+// URLs of the landing page, QR image and preview card of a target, encoded
+function followUrls(params: string, source?: string) {
+  return {
+    link_url: `${APP_URL}?${params}${sourceParam(source)}`,
+    qr_url: `${APP_URL_QR}?${params}${sourceParam(source)}`,
+    og_image_url: `${APP_URL_OG_IMAGE}?${params}`,
+  };
+}
+
+const BATCH_MAX_TARGETS = 200;
+const BATCH_CONCURRENCY = 4;
+
+// API endpoint: POST /qrcode/batch {"targets": [{"name": "..."}, {"organisation_id": "..."}, {"function_tag": "...", "function_tag_value": "..."}]}
+app.post("/qrcode/batch", batchRateLimit, express.json(), async (req, res) => {
+  try {
+    const body = req.body as { targets?: unknown } | undefined;
+    const targets = body?.targets;
+    if (!Array.isArray(targets) || targets.length === 0)
+      return res.status(400).json(errorBody(res, "error.targets_required"));
+    if (targets.length > BATCH_MAX_TARGETS)
+      return res.status(400).json(
+        errorBody(res, "error.too_many_targets_batch", {
+          MAX: String(BATCH_MAX_TARGETS),
+        }),
+      );
+
+    const entries = await mapWithConcurrency(
+      targets,
+      BATCH_CONCURRENCY,
+      async (rawTarget, index): Promise<BatchEntry> => {
+        const parsed = parseBatchTarget(rawTarget);
+        if (isFollowError(parsed))
+          return {
+            index,
+            error: translateMessage(res.locals.locale, parsed.message),
+          };
+
+        const { followType, followArg } = parsed;
+        const target = await resolveFollowTarget(parsed);
+        if (isFollowError(target))
+          return {
+            index,
+            followType,
+            followArg,
+            error: translateMessage(res.locals.locale, target.message),
+          };
+
+        const { link_url } = followUrls(target.params, target.source);
+        const image = await renderQrCodeCached(link_url, {
+          format: "png",
+          frameEnabled: true,
+          followLabel: target.followLabel,
+          locale: res.locals.locale,
+        });
+        return {
+          index,
+          followType,
+          followArg: target.followArg,
+          followLabel: target.followLabel,
+          qr_url: link_url,
+          image,
+        };
+      },
+    );
+
+    const archive = await buildBatchArchive(entries);
+
+    res.set("Content-Type", "application/zip");
+    res.attachment("joel-qrcodes.zip");
+    res.send(archive);
+
+    umami.log({ event: "/qr-batch" });
+  } catch (err) {
+    if (err instanceof ConcurrencyLimitError) return sendBusy(res);
+    console.error("QR batch API error:", err);
+    res.status(500).json(errorBody(res, "error.batch_failed"));
+  }
+});
+
+// API endpoint: POST /qrcode/sheet {"targets": [...], "layout": {"columns": 3, "rows": 4, "margin": 10, "gap": 4, "crop_marks": true}, "format": "pdf"}
+app.post("/qrcode/sheet", batchRateLimit, express.json(), async (req, res) => {
+  try {
+    const body = req.body as
+      | { targets?: unknown; layout?: unknown; format?: unknown }
+      | undefined;
+    const targets = body?.targets;
+    if (!Array.isArray(targets) || targets.length === 0)
+      return res.status(400).json(errorBody(res, "error.targets_required"));
+    if (targets.length > BATCH_MAX_TARGETS)
+      return res.status(400).json(
+        errorBody(res, "error.too_many_targets_sheet", {
+          MAX: String(BATCH_MAX_TARGETS),
+        }),
+      );
+
+    // Output format: pdf (default, one page per grid) or svg (a single page)
+    const format = body?.format ?? "pdf";
+    if (typeof format !== "string" || !isSheetFormat(format))
+      return res.status(400).json(
+        errorBody(res, "error.sheet_format_values", {
+          VALUES: SHEET_FORMATS.join(", "),
+        }),
+      );
+
+    const layout = parseSheetLayout(body?.layout);
+    if ("error" in layout)
+      return res
+        .status(400)
+        .json({ error: translateMessage(res.locals.locale, layout.error) });
+    if (format === "svg" && targets.length > sheetCapacity(layout))
+      return res.status(400).json(
+        errorBody(res, "error.svg_sheet_single_page", {
+          MAX: String(sheetCapacity(layout)),
+        }),
+      );
+
+    const entries = await mapWithConcurrency(
+      targets,
+      BATCH_CONCURRENCY,
+      async (rawTarget, index) => {
+        const parsed = parseBatchTarget(rawTarget);
+        if (isFollowError(parsed))
+          return {
+            index,
+            error: translateMessage(res.locals.locale, parsed.message),
+          };
+
+        const { followType, followArg } = parsed;
+        const target = await resolveFollowTarget(parsed);
+        if (isFollowError(target))
+          return {
+            index,
+            followType,
+            followArg,
+            code: target.code,
+            error: translateMessage(res.locals.locale, target.message),
+          };
+
+        // Same QR as /qrcode?frame=false, shared with its cache
+        const image = await renderQrCodeCached(
+          followUrls(target.params, target.source).link_url,
+          { format: "png", frameEnabled: false },
+        );
+        return { index, followLabel: target.followLabel, image };
+      },
+    );
+
+    // Nothing is printed until every target is verified
+    const failed = entries.filter((entry) => "error" in entry);
+    if (
+      failed.some(
+        (entry) => "code" in entry && entry.code === "upstream_unavailable",
+      )
+    ) {
+      res.set("Retry-After", String(UPSTREAM_RETRY_AFTER));
+      return res.status(503).json({
+        ...errorBody(res, "error.upstream_unavailable"),
+        targets: failed,
+      });
+    }
+    if (failed.length > 0)
+      return res.status(400).json({
+        ...errorBody(res, "error.sheet_targets_unverified", {
+          COUNT: String(failed.length),
+        }),
+        targets: failed,
+      });
+
+    const cells = entries as SheetCell[];
+    if (format === "svg") {
+      res.set("Content-Type", OUTPUT_CONTENT_TYPES.svg);
+      res.set("Content-Security-Policy", SVG_CONTENT_SECURITY_POLICY);
+      res.attachment("joel-qrcodes.svg");
+      res.send(buildSheetSvg(cells, layout));
+    } else {
+      res.set("Content-Type", OUTPUT_CONTENT_TYPES.pdf);
+      res.attachment("joel-qrcodes.pdf");
+      res.send(await buildSheetPdf(cells, layout));
+    }
+
+    umami.log({ event: "/qr-sheet" });
+  } catch (err) {
+    if (err instanceof ConcurrencyLimitError) return sendBusy(res);
+    console.error("QR sheet API error:", err);
+    res.status(500).json(errorBody(res, "error.sheet_failed"));
+  }
+});
+
+// Batch targets are always verified on JORFSearch
+function parseBatchTarget(rawTarget: unknown): FollowQuery | FollowError {
+  if (typeof rawTarget !== "object" || rawTarget === null)
+    return followError("invalid_parameter", "error.target_not_object");
+  const query = parseFollowQuery(rawTarget as Record<string, unknown>);
+  if (query === undefined)
+    return followError("invalid_parameter", "error.target_missing");
+  if (isFollowError(query)) return query;
+  return { ...query, verify: true };
+}
+
+interface SearchSuggestion {
+  type: FollowType;
+  label: string;
+  followArg: string; // canonical value of the name, organisation_id or function_tag parameter
+  detail?: string;
+  link_url: string;
+  qr_url: string;
+}
+
+const SEARCH_MIN_QUERY_LENGTH = 2;
+const SEARCH_MAX_SUGGESTIONS = 10;
+
+// API endpoint: /api/search?q=jean dupont
+app.get("/api/search", searchRateLimit, async (req, res) => {
+  try {
+    if (typeof req.query.q !== "string")
+      return res.status(400).json(errorBody(res, "error.search_query_missing"));
+    const query = req.query.q.trim();
+
+    const suggestions: SearchSuggestion[] = [];
+    const encodedFollowUrls = (
+      ...args: Parameters<typeof followParams>
+    ): Pick<SearchSuggestion, "link_url" | "qr_url"> => {
+      const { link_url, qr_url } = followUrls(followParams(...args));
+      return { link_url, qr_url };
+    };
+
+    if (query.length >= SEARCH_MIN_QUERY_LENGTH) {
+      // Function tags from the catalogue, no upstream call needed
+      for (const tag of searchFunctionTags(query))
+        suggestions.push({
+          type: "function_tag",
+          label: functionTagLabel(tag),
+          followArg: tag,
+          ...encodedFollowUrls("function_tag", tag),
+        });
+
+      // Organisations can only be looked up by WikidataId
+      if (/^Q\d+$/i.test(query)) {
+        const JORFResult = await callJORFSearchOrganisationByWikidataId(
+          query.toUpperCase(),
+        );
+        for (const organisation of JORFResult)
+          suggestions.push({
+            type: "organisation",
+            label: organisation.name,
+            followArg: organisation.id,
+            ...encodedFollowUrls("organisation", organisation.id),
+          });
+      }
+
+      // People need a firstname and a lastname
+      const peopleName = cleanPeopleNameJORFURL(query);
+      if (peopleName.split(" ").length >= 2) {
+        const identities = listJORFPeopleIdentities(
+          await callJORFSearchPeople(peopleName),
+        );
+        for (const identity of identities) {
+          const prenomNom = `${identity.prenom} ${identity.nom}`;
+          suggestions.push({
+            type: "people",
+            label: prenomNom,
+            followArg: prenomNom,
+            detail: identity.lastFunction,
+            ...encodedFollowUrls("people", prenomNom, {
+              identity: identities.length > 1 ? prenomNom : undefined,
+            }),
+          });
+        }
+      }
+    }
+
+    umami.log({ event: "/api-search" });
+    res.json({
+      query,
+      suggestions: suggestions.slice(0, SEARCH_MAX_SUGGESTIONS),
+    });
+  } catch (err) {
+    if (isUpstreamUnavailable(err)) {
+      res.set("Retry-After", String(UPSTREAM_RETRY_AFTER));
+      return res.status(503).json(errorBody(res, "error.upstream_unavailable"));
+    }
+    console.error("Search API error:", err);
+    res.status(500).json(errorBody(res, "error.search_failed"));
+  }
+});
+
+app.get("/", async (req, res) => {
+  try {
+    const query = parseFollowQuery(req.query);
+    if (query === undefined) {
+      umami.log({ event: "/link-default" });
+      res.redirect(encodeURI(HOME_WEBSITE_URL));
+      return;
+    }
+    if (isFollowError(query)) return sendFollowErrorPage(req, res, query);
+
+    const target = await resolveFollowTarget(query);
+    if (isFollowError(target)) {
+      if (target.candidates !== undefined && acceptsHtml(req)) {
+        umami.log({
+          event: "/link-people-disambiguation",
+          data: targetEventData(query),
+        });
+        res
+          .type("html")
+          .send(
+            disambiguationPage(res.locals.locale, query, target.candidates)
+              .html,
+          );
+        return;
+      }
+      return sendFollowErrorPage(req, res, target, query.followArg);
+    }
+    const { followLabel } = target;
+    // The canonical URL and the preview card are the same for every source
+    const { link_url, og_image_url } = followUrls(target.params);
+    const { qr_url } = followUrls(target.params, target.source);
+
+    // Hide the QR code if already on mobile
+    const isMobile =
+      /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
+        req.get("user-agent") ?? "",
+      );
+
+    const data = targetEventData(target);
+    switch (target.followType) {
+      case "people":
+        umami.log({ event: "/link-people", data });
+        break;
+      case "organisation":
+        umami.log({ event: "/link-organisation", data });
+        break;
+      case "function_tag":
+        umami.log({ event: "/link-tag", data });
+        break;
+    }
+
+    const { locale } = res.locals;
+    res.type("html").send(
+      renderIndexPage({
+        LANG: locale,
+        ANALYTICS_BLOCK,
+        HOME_LINK: HOME_WEBSITE_URL,
+        OG_LOCALE: translate(locale, "page.og_locale"),
+        PAGE_TITLE: pageTitle(locale, followLabel),
+        PAGE_DESCRIPTION: pageDescription(locale, followLabel),
+        CANONICAL_URL: link_url,
+        OG_IMAGE_URL: og_image_url + localeParam(locale),
+        NAV_FEATURES: translate(locale, "nav.features"),
+        NAV_TEAM: translate(locale, "nav.team"),
+        HEADLINE: translate(locale, "main.headline"),
+        FOLLOW_LABEL: followLabel,
+        INTRO: translate(locale, "main.intro"),
+        QRCODE_BLOCK: isMobile
+          ? trustedHtml("")
+          : renderQrCodeBlock({
+              QRCODE_URL: qr_url + "&frame=false",
+            }),
+        MESSENGER_BLOCKS: joinHtml(
+          messengers.map((messenger) =>
+            messengerBlock(locale, messenger, target),
+          ),
+          " ",
+        ),
+        LEARN_MORE: translate(locale, "main.learn_more"),
+        PRIVACY_POLICY: translate(locale, "footer.privacy_policy"),
+        TERMS_OF_USE: translate(locale, "footer.terms_of_use"),
+        FOOTER_NOTE: translate(locale, "footer.note"),
+      }).html,
+    );
+  } catch (err) {
+    console.error("QR API error:", err);
+    sendPageFailure(req, res);
+  }
+});
+
+function messengerBlock(
+  locale: Locale,
+  messenger: Messenger,
+  target: FollowTarget,
+): SafeHtml {
+  const command = target.startCommand;
+  return renderMessengerBlock({
+    MESSENGER_ID: messenger.id,
+    MESSENGER_CLICK_URL: `/click?messenger=${messenger.id}&${target.params}${sourceParam(target.source)}`,
+    MESSENGER_LINK: messenger.link(startMessage(locale, command)),
+    MESSENGER_COMMAND: messenger.prefillsCommand ? "" : command,
+    MESSENGER_HINT: messenger.prefillsCommand
+      ? ""
+      : translate(locale, "main.copy_hint"),
+    MESSENGER_LABEL: messenger.label,
+    MESSENGER_ICON: messenger.icon,
+  });
+}
+
+function disambiguationPage(
+  locale: Locale,
+  { followArg, source }: FollowQuery,
+  identities: JORFPersonIdentity[],
+): SafeHtml {
+  const candidates = identities.map((identity) => {
+    const prenomNom = `${identity.prenom} ${identity.nom}`;
+    const details = [
+      identity.lastFunction,
+      identity.lastDate !== undefined
+        ? translate(locale, "disambiguation.last_publication", {
+            DATE: new Date(identity.lastDate).toLocaleDateString(
+              translate(locale, "page.date_locale"),
+            ),
+          })
+        : undefined,
+    ]
+      .filter((detail) => detail !== undefined)
+      .join(" · ");
+    return renderCandidateBlock({
+      LINK: `/?name=${encodeURIComponent(prenomNom)}&identity=${encodeURIComponent(prenomNom)}${sourceParam(source)}${localeParam(locale)}`,
+      NAME: prenomNom,
+      DETAILS: details,
+    });
+  });
+
+  return renderDisambiguationPage({
+    LANG: locale,
+    PAGE_TITLE: pageTitle(locale, followArg),
+    HEADLINE: translate(locale, "disambiguation.headline"),
+    QUERY: followArg,
+    INTRO: translate(locale, "disambiguation.intro"),
+    CANDIDATES_BLOCK: joinHtml(candidates),
+  });
+}
+
+app.get("/builder", (req, res) => {
+  umami.log({ event: "/builder" });
+  res.type("html").send(BUILDER_PAGE);
+});
+
+// Redirect routes: /tchap, /whatsapp, /telegram, /matrix, /signal…
+for (const provider of MESSENGER_PROVIDERS) {
+  const messenger = messengers.find(({ id }) => id === provider.id);
+  app.get(`/${provider.id}`, async (req, res) => {
+    umami.log({
+      event: `/link-${provider.id}`,
+      data: { source: parseSource(req.query.src) ?? undefined },
+    });
+    if (messenger === undefined) {
+      console.log(`Missing ${provider.id} configuration`);
+      res.redirect(HOME_WEBSITE_URL);
+      return;
+    }
+    await sendMessengerLink(req, res, messenger);
+  });
+}
+
+/*
+ * With the follow parameters of "/", the link carries the start command, or
+ * an intermediate page copies it before opening the chat when it cannot.
+ */
+async function sendMessengerLink(
+  req: express.Request,
+  res: express.Response,
+  messenger: Messenger,
+) {
+  try {
+    const query = parseFollowQuery(req.query);
+    const { locale } = res.locals;
+    if (query === undefined) {
+      res.redirect(messenger.link(startMessage(locale)));
+      return;
+    }
+    if (isFollowError(query)) {
+      sendFollowErrorPage(req, res, query);
+      return;
+    }
+
+    const target = await resolveFollowTarget(query);
+    if (isFollowError(target)) {
+      sendFollowErrorPage(req, res, target, query.followArg);
+      return;
+    }
+    const command = target.startCommand;
+
+    if (messenger.prefillsCommand) {
+      res.redirect(messenger.link(startMessage(locale, command)));
+      return;
+    }
+
+    const values = { MESSENGER: messenger.label };
+    res.type("html").send(
+      renderMessengerPage({
+        LANG: locale,
+        PAGE_TITLE: pageTitle(locale, target.followLabel),
+        HEADLINE_BEFORE: translate(locale, "messenger.headline_before"),
+        FOLLOW_LABEL: target.followLabel,
+        HEADLINE_AFTER: translate(locale, "messenger.headline_after", values),
+        INTRO: translate(locale, "messenger.intro", values),
+        COMMAND_LABEL: translate(locale, "messenger.command_label"),
+        COMMAND: command,
+        COPY: translate(locale, "messenger.copy"),
+        COPIED: translate(locale, "messenger.copied"),
+        LINK: messenger.link(),
+        COPY_AND_OPEN: translate(locale, "messenger.copy_and_open", values),
+      }).html,
+    );
+  } catch (err) {
+    console.error("Messenger page error:", err);
+    sendPageFailure(req, res);
+  }
+}
+
+/*
+ * Click-through beacon of the landing page buttons:
+ * POST /click?messenger=telegram&name=Jean Dupont&src=affiche-metro
+ * A beacon must not call JORFSearch: only the canonical targets found in its
+ * cache are counted, so that made-up targets cannot fill the stats tables.
+ */
+app.post("/click", clickRateLimit, async (req, res) => {
+  const messenger = messengers.find(({ id }) => id === req.query.messenger);
+  if (messenger === undefined)
+    return res.status(400).json(
+      errorBody(res, "error.messenger_values", {
+        VALUES: messengers.map(({ id }) => id).join(", "),
+      }),
+    );
+  const query = parseFollowQuery(req.query);
+  if (query === undefined)
+    return res.status(400).json({
+      code: "invalid_parameter",
+      ...errorBody(res, "error.target_required"),
+    });
+  if (isFollowError(query)) return sendFollowError(res, query);
+
+  if (await isKnownFollowTarget(query))
+    umami.log({
+      event: `/click-${messenger.id}`,
+      data: { ...targetEventData(query), messenger: messenger.id },
+    });
+  res.status(204).end();
+});
+
+// Aggregated counts of the events, when STATS_ENABLED or STATS_FILE is set
+app.get("/stats", (req, res) => {
+  if (localStats === undefined)
+    return res.status(404).json(errorBody(res, "error.stats_disabled"));
+  res.json(localStats.snapshot());
+});
+
+app.get("/status", (req, res) => {
+  res.type("text/plain").send("JOEL QR server is running.");
+});
+
+app.get("/status/cache", (req, res) => {
+  res.json({
+    jorfsearch: getJORFSearchCacheStats(),
+    images: getRenderCacheStats(),
+  });
+});
+
+app.get("/status/upstream", (req, res) => {
+  const jorfsearch = getJORFSearchCircuitStats();
+  res.status(jorfsearch.state === "open" ? 503 : 200).json({ jorfsearch });
+});
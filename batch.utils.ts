@@ -0,0 +1,113 @@
+import JSZip from "jszip";
+
+export interface BatchEntry {
+  index: number;
+  followType?: string;
+  followArg?: string;
+  followLabel?: string;
+  qr_url?: string;
+  image?: Buffer;
+  error?: string;
+}
+
+interface ManifestRow {
+  index: number;
+  type: string;
+  value: string;
+  status: "ok" | "failed";
+  label: string;
+  qr_url: string;
+  file: string;
+  error: string;
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestRow)[] = [
+  "index",
+  "type",
+  "value",
+  "status",
+  "label",
+  "qr_url",
+  "file",
+  "error",
+];
+
+// Run fn over items with at most `limit` calls in flight, keeping the input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+export async function buildBatchArchive(
+  entries: BatchEntry[],
+): Promise<Buffer> {
+  const zip = new JSZip();
+  const manifest: ManifestRow[] = [];
+
+  for (const entry of entries) {
+    let file = "";
+    if (entry.image) {
+      file = `${String(entry.index + 1).padStart(3, "0")}-${slugify(
+        entry.followLabel ?? entry.followArg ?? "",
+      )}.png`;
+      zip.file(file, entry.image);
+    }
+    manifest.push({
+      index: entry.index,
+      type: entry.followType ?? "",
+      value: entry.followArg ?? "",
+      status: entry.image ? "ok" : "failed",
+      label: entry.followLabel ?? "",
+      qr_url: entry.qr_url ?? "",
+      file,
+      error: entry.error ?? "",
+    });
+  }
+
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  zip.file("manifest.csv", toCsv(manifest));
+
+  return await zip.generateAsync({ type: "nodebuffer" });
+}
+
+function toCsv(rows: ManifestRow[]): string {
+  const escapeCell = (value: string | number) => {
+    const cell = String(value);
+    return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  return (
+    [
+      MANIFEST_COLUMNS.join(","),
+      ...rows.map((row) =>
+        MANIFEST_COLUMNS.map((column) => escapeCell(row[column])).join(","),
+      ),
+    ].join("\n") + "\n"
+  );
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "") // remove combining marks
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "qrcode"
+  );
+}
@@ -0,0 +1,280 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // epoch ms
+  staleUntil?: number; // epoch ms, served past expiresAt when the loader fails
+}
+
+export interface CacheStore {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+export interface CachePolicy {
+  ttl: number; // ms
+  negativeTtl: number; // ms, for empty results
+  staleTtl?: number; // ms after expiry during which a failed reload serves the old value
+}
+
+interface CounterSet {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  stale: number;
+}
+
+export interface CacheStats {
+  store: string;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  stale: number;
+  hitRate: number;
+  namespaces: Record<string, CounterSet & { hitRate: number }>;
+}
+
+/*
+ * In-memory store, least recently used entries are evicted first. With
+ * maxBytes, sizeOf weighs the values: entries are evicted until they fit,
+ * and a value larger than maxBytes on its own is not kept at all.
+ */
+export function createMemoryStore(
+  maxEntries = 5000,
+  {
+    maxBytes = Infinity,
+    sizeOf = () => 0,
+  }: { maxBytes?: number; sizeOf?: (value: unknown) => number } = {},
+): CacheStore {
+  const entries = new Map<string, { entry: CacheEntry; size: number }>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const stored = entries.get(key);
+    if (stored === undefined) return;
+    entries.delete(key);
+    bytes -= stored.size;
+  };
+
+  return {
+    name: "memory",
+    get(key) {
+      const stored = entries.get(key);
+      if (stored === undefined) return Promise.resolve(undefined);
+      // Map keeps insertion order: re-insert to mark as recently used
+      entries.delete(key);
+      entries.set(key, stored);
+      return Promise.resolve(stored.entry);
+    },
+    set(key, entry) {
+      remove(key);
+      const size = sizeOf(entry.value);
+      if (size > maxBytes) return Promise.resolve();
+      entries.set(key, { entry, size });
+      bytes += size;
+      while (entries.size > maxEntries || bytes > maxBytes) {
+        const oldest = entries.keys().next();
+        if (oldest.done) break;
+        remove(oldest.value);
+      }
+      return Promise.resolve();
+    },
+  };
+}
+
+// Age after which a cache file that does not parse is not being written anymore
+const UNREADABLE_FILE_GRACE = 60 * 1000;
+
+// Time after which an entry can no longer be served, even as a stale value
+function entryEnd(entry: CacheEntry): number {
+  return entry.staleUntil ?? entry.expiresAt;
+}
+
+/*
+ * One JSON file per key, survives restarts. Every tenth of maxEntries writes,
+ * the directory is swept in the background: entries past their end are
+ * removed, then those ending first until maxEntries remain.
+ */
+export function createFileStore(
+  directory: string,
+  maxEntries = 5000,
+): CacheStore & { sweep(): Promise<void> } {
+  const sweepEvery = Math.max(1, Math.ceil(maxEntries / 10));
+  let writesUntilSweep = 0; // the first write sweeps what was left on disk
+  let sweeping: Promise<void> | undefined;
+
+  const filePath = (key: string) =>
+    path.join(
+      directory,
+      crypto.createHash("sha1").update(key).digest("hex") + ".json",
+    );
+  const readEntry = async (file: string) =>
+    JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry;
+
+  const sweepDirectory = async () => {
+    const now = Date.now();
+    const kept: { file: string; end: number }[] = [];
+    for (const name of await fs.readdir(directory)) {
+      if (!name.endsWith(".json")) continue;
+      const file = path.join(directory, name);
+      let end: number;
+      try {
+        end = entryEnd(await readEntry(file));
+      } catch {
+        // A file that does not parse yet may still be being written
+        const stat = await fs.stat(file).catch(() => undefined);
+        if (stat !== undefined && now - stat.mtimeMs > UNREADABLE_FILE_GRACE)
+          await fs.rm(file, { force: true });
+        continue;
+      }
+      if (end > now) kept.push({ file, end });
+      else await fs.rm(file, { force: true });
+    }
+    kept.sort((a, b) => a.end - b.end);
+    for (const { file } of kept.slice(0, Math.max(0, kept.length - maxEntries)))
+      await fs.rm(file, { force: true });
+  };
+
+  const store = {
+    name: "file",
+    async get(key: string) {
+      try {
+        return await readEntry(filePath(key));
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key: string, entry: CacheEntry) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(filePath(key), JSON.stringify(entry), "utf8");
+      if (--writesUntilSweep > 0) return;
+      writesUntilSweep = sweepEvery;
+      // Reading every file must not delay the request that wrote this one
+      void store.sweep();
+    },
+    // The sweep in progress, or a new one
+    sweep() {
+      sweeping ??= sweepDirectory()
+        .catch((error: unknown) => {
+          console.log(error);
+        })
+        .finally(() => {
+          sweeping = undefined;
+        });
+      return sweeping;
+    },
+  };
+  return store;
+}
+
+export function createCache(store: CacheStore) {
+  const inFlight = new Map<string, Promise<unknown>>();
+  const counters = new Map<string, CounterSet>();
+
+  const countersFor = (namespace: string) => {
+    let set = counters.get(namespace);
+    if (set === undefined) {
+      set = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+      counters.set(namespace, set);
+    }
+    return set;
+  };
+
+  /*
+   * Return the cached value for namespace:key, or call the loader once for all
+   * concurrent callers. Results for which isEmpty is true are kept for
+   * negativeTtl only; loader errors are never cached, but an expired value
+   * still within its staleTtl is returned instead of the error.
+   */
+  async function wrap<T>(
+    namespace: string,
+    key: string,
+    policy: CachePolicy,
+    isEmpty: (value: T) => boolean,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const cacheKey = `${namespace}:${key}`;
+    const namespaceCounters = countersFor(namespace);
+
+    const pending = inFlight.get(cacheKey);
+    if (pending !== undefined) {
+      namespaceCounters.coalesced++;
+      return (await pending) as T;
+    }
+
+    const promise = (async () => {
+      const cached = await store.get(cacheKey).catch(() => undefined);
+      if (cached !== undefined && cached.expiresAt > Date.now()) {
+        namespaceCounters.hits++;
+        return cached.value as T;
+      }
+
+      namespaceCounters.misses++;
+      let value: T;
+      try {
+        value = await loader();
+      } catch (error) {
+        if (
+          cached?.staleUntil !== undefined &&
+          cached.staleUntil > Date.now()
+        ) {
+          namespaceCounters.stale++;
+          return cached.value as T;
+        }
+        throw error;
+      }
+      const expiresAt =
+        Date.now() + (isEmpty(value) ? policy.negativeTtl : policy.ttl);
+      const staleUntil =
+        policy.staleTtl !== undefined ? expiresAt + policy.staleTtl : undefined;
+      await store
+        .set(cacheKey, { value, expiresAt, staleUntil })
+        .catch((error: unknown) => {
+          console.log(error);
+        });
+      return value;
+    })();
+
+    inFlight.set(cacheKey, promise);
+    try {
+      return await promise;
+    } finally {
+      inFlight.delete(cacheKey);
+    }
+  }
+
+  // Unexpired value of namespace:key, never loaded nor counted
+  async function peek<T>(
+    namespace: string,
+    key: string,
+  ): Promise<T | undefined> {
+    const cached = await store
+      .get(`${namespace}:${key}`)
+      .catch(() => undefined);
+    return cached !== undefined && cached.expiresAt > Date.now()
+      ? (cached.value as T)
+      : undefined;
+  }
+
+  function stats(): CacheStats {
+    const hitRate = ({ hits, misses, coalesced }: CounterSet) => {
+      const total = hits + misses + coalesced;
+      return total === 0 ? 0 : (hits + coalesced) / total;
+    };
+    const total: CounterSet = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+    const namespaces: CacheStats["namespaces"] = {};
+    for (const [namespace, set] of counters) {
+      total.hits += set.hits;
+      total.misses += set.misses;
+      total.coalesced += set.coalesced;
+      total.stale += set.stale;
+      namespaces[namespace] = { ...set, hitRate: hitRate(set) };
+    }
+    return { store: store.name, ...total, hitRate: hitRate(total), namespaces };
+  }
+
+  return { wrap, peek, stats };
+}
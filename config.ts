@@ -0,0 +1,238 @@
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  configuredMessengers,
+  Messenger,
+  messengerConfigKeys,
+} from "./messengers.ts";
+import { parseAllowlist } from "./limits.utils.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type Env = Record<string, string | undefined>;
+
+export interface Config {
+  isDev: boolean;
+  port: number;
+  appUrl: string; // public URL of this server, encoded in the QR codes
+  homeWebsiteUrl: string;
+  messengers: Messenger[];
+  umami?: { host: string; id: string; url: string }; // unset in development or with only local stats
+  jorfsearch: { url: string; timeout: number; cacheDir?: string };
+  stats?: { file?: string }; // local event counters, unset when disabled
+  assets: { dir: string; frame: string; logo: string; font: string };
+  limits: {
+    perIp: number; // requests per minute to /qrcode
+    global: number;
+    batchPerIp: number; // requests per minute to /qrcode/batch and /qrcode/sheet
+    batchGlobal: number;
+    ogImagePerIp: number; // requests per minute to /og-image
+    ogImageGlobal: number;
+    searchPerIp: number; // requests per minute to /api/search
+    searchGlobal: number;
+    allowlist: string[]; // addresses or IPv4 ranges never limited
+    trustProxy?: number | string;
+    renderConcurrency: number;
+    renderMaxQueue: number;
+  };
+}
+
+// Every invalid setting, reported together at startup
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((problem) => ` - ${problem}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+// Names kept from earlier documentation, read when the current one is unset
+const DEPRECATED_ALIASES: Record<string, string> = {
+  WHATSAPP_PHONE_NUMBER: "WHATSAPP_BOT_PHONE_NUMBER",
+};
+
+// Named ranges of proxy-addr, the module behind the trust proxy setting
+const TRUST_PROXY_PRESETS = ["loopback", "linklocal", "uniquelocal"];
+
+// An address, a CIDR range (or address/netmask) or a preset name
+function isTrustProxyEntry(entry: string): boolean {
+  if (TRUST_PROXY_PRESETS.includes(entry)) return true;
+  if (!entry.includes("/")) return net.isIP(entry) !== 0;
+  const [address, range, ...rest] = entry.split("/");
+  const version = net.isIP(address);
+  if (version === 0 || rest.length > 0) return false;
+  if (version === 4 && net.isIPv4(range)) return true;
+  return /^\d+$/.test(range) && Number(range) <= (version === 4 ? 32 : 128);
+}
+
+export function loadConfig(env: Env = process.env): Config {
+  const problems: string[] = [];
+  const value = (name: string) => (env[name] === "" ? undefined : env[name]);
+
+  const integer = (
+    name: string,
+    fallback: number,
+    min: number,
+    max: number,
+  ) => {
+    const raw = value(name);
+    if (raw === undefined) return fallback;
+    const parsed = Number(raw);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      problems.push(
+        `${name} must be an integer between ${String(min)} and ${String(max)}, got "${raw}".`,
+      );
+      return fallback;
+    }
+    return parsed;
+  };
+
+  const boolean = (name: string, fallback: boolean) => {
+    const raw = value(name);
+    if (raw === undefined) return fallback;
+    if (raw === "true" || raw === "1") return true;
+    if (raw === "false" || raw === "0") return false;
+    problems.push(`${name} must be true or false, got "${raw}".`);
+    return fallback;
+  };
+
+  const url = (name: string, fallback: string) => {
+    const raw = value(name) ?? fallback;
+    try {
+      const parsed = new URL(raw);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:")
+        throw new Error();
+    } catch {
+      problems.push(`${name} must be an http(s) URL, got "${raw}".`);
+    }
+    return raw.replace(/\/+$/, "");
+  };
+
+  const assetsDir = path.resolve(value("ASSETS_DIR") ?? __dirname);
+  const file = (name: string, fallback: string) => {
+    const filePath = path.resolve(assetsDir, value(name) ?? fallback);
+    if (!fs.existsSync(filePath))
+      problems.push(`${name} file not found: ${filePath}.`);
+    return filePath;
+  };
+
+  const isDev = env.NODE_ENV === "development";
+  const port = integer("PORT", isDev ? 8080 : 3000, 1, 65535);
+
+  // APP_DOMAIN is the short form of APP_URL for an https deployment
+  const appDomain = value("APP_DOMAIN");
+  const appUrl = url(
+    "APP_URL",
+    appDomain !== undefined
+      ? `https://${appDomain}`
+      : isDev
+        ? `http://localhost:${String(port)}`
+        : "https://links.joel-officiel.fr",
+  );
+  const homeWebsiteUrl = url("HOME_WEBSITE_URL", "https://joel-officiel.fr");
+
+  const messengerEnv = { ...env };
+  for (const [alias, name] of Object.entries(DEPRECATED_ALIASES))
+    if (value(name) === undefined && value(alias) !== undefined) {
+      console.warn(`${alias} is deprecated, set ${name} instead.`);
+      messengerEnv[name] = env[alias];
+    }
+  const messengers = configuredMessengers(messengerEnv);
+  if (messengers.length === 0)
+    problems.push(
+      `Missing messenger configuration. Set one of ${messengerConfigKeys().join(", ")}.`,
+    );
+
+  const jorfsearch = {
+    url: url("JORFSEARCH_URL", "https://jorfsearch.steinertriples.ch"),
+    timeout: integer("JORFSEARCH_TIMEOUT_MS", 5000, 1, 60000),
+    cacheDir: value("JORFSEARCH_CACHE_DIR"),
+  };
+
+  // A file to keep the counters implies them
+  const statsFile = value("STATS_FILE");
+  const stats = boolean("STATS_ENABLED", statsFile !== undefined)
+    ? { file: statsFile !== undefined ? path.resolve(statsFile) : undefined }
+    : undefined;
+
+  // Outside development, events go to Umami unless the local stats count them
+  let umami: Config["umami"];
+  if (!isDev) {
+    const host = value("UMAMI_HOST");
+    const id = value("UMAMI_ID");
+    if (host !== undefined && id !== undefined)
+      umami = { host, id, url: url("UMAMI_URL", `https://${host}`) };
+    else if (host !== undefined || id !== undefined)
+      problems.push("UMAMI_HOST and UMAMI_ID must be set together.");
+    else if (stats === undefined)
+      problems.push(
+        "UMAMI_HOST and UMAMI_ID must be set outside development, unless STATS_ENABLED is set.",
+      );
+  }
+
+  if (!fs.existsSync(path.join(assetsDir, "main.html")))
+    problems.push(`ASSETS_DIR must contain the HTML pages: ${assetsDir}.`);
+  const assets = {
+    dir: assetsDir,
+    frame: file("FRAME_IMAGE_PATH", "frame.png"),
+    logo: file("LOGO_PATH", "logo_round.png"),
+    font: file("CAPTION_FONT_PATH", "DejaVuSans-Bold.ttf"),
+  };
+
+  // Hop count, or addresses of the trusted reverse proxies
+  const trustProxy = (name: string) => {
+    const raw = value(name);
+    if (raw === undefined) return undefined;
+    if (/^\d+$/.test(raw)) return Number(raw);
+    if (raw.split(",").every((entry) => isTrustProxyEntry(entry.trim())))
+      return raw;
+    problems.push(
+      `${name} must be a number of proxies, or comma-separated addresses, CIDR ranges, ${TRUST_PROXY_PRESETS.join(", ")}, got "${raw}".`,
+    );
+    return undefined;
+  };
+  const limits = {
+    perIp: integer("RATE_LIMIT_PER_IP", 60, 1, 100000),
+    global: integer("RATE_LIMIT_GLOBAL", 600, 1, 1000000),
+    batchPerIp: integer("RATE_LIMIT_BATCH_PER_IP", 5, 1, 100000),
+    batchGlobal: integer("RATE_LIMIT_BATCH_GLOBAL", 30, 1, 1000000),
+    ogImagePerIp: integer("RATE_LIMIT_OG_IMAGE_PER_IP", 30, 1, 100000),
+    ogImageGlobal: integer("RATE_LIMIT_OG_IMAGE_GLOBAL", 300, 1, 1000000),
+    searchPerIp: integer("RATE_LIMIT_SEARCH_PER_IP", 30, 1, 100000),
+    searchGlobal: integer("RATE_LIMIT_SEARCH_GLOBAL", 300, 1, 1000000),
+    allowlist: parseAllowlist(value("RATE_LIMIT_ALLOWLIST")),
+    trustProxy: trustProxy("TRUST_PROXY"),
+    renderConcurrency: integer(
+      "RENDER_CONCURRENCY",
+      Math.max(1, os.availableParallelism()),
+      1,
+      256,
+    ),
+    renderMaxQueue: integer("RENDER_MAX_QUEUE", 50, 0, 10000),
+  };
+
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  return {
+    isDev,
+    port,
+    appUrl,
+    homeWebsiteUrl,
+    messengers,
+    umami,
+    jorfsearch,
+    stats,
+    assets,
+    limits,
+  };
+}
+
+export const config = loadConfig();
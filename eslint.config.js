@@ -20,6 +20,20 @@ export default defineConfig(
       },
     },
   },
+  {
+    files: ["test/**/*.ts"],
+    rules: {
+      // node:test suites and cases return promises the runner awaits
+      "@typescript-eslint/no-floating-promises": [
+        "error",
+        {
+          allowForKnownSafeCalls: [
+            { from: "package", name: ["describe", "it"], package: "node:test" },
+          ],
+        },
+      ],
+    },
+  },
   prettierConfig,
   eslintPluginPrettierRecommended,
 );
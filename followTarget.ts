@@ -0,0 +1,408 @@
+import {
+  callJORFSearchOrganisationByWikidataId,
+  callJORFSearchPeople,
+  callJORFSearchTag,
+  findJORFPersonIdentity,
+  JORFPersonIdentity,
+  listJORFPeopleIdentities,
+  peekJORFSearchOrganisation,
+  peekJORFSearchPeople,
+  peekJORFSearchTag,
+} from "./JORFSearch.utils.ts";
+import {
+  functionTagLabel,
+  isFunctionTag,
+  normalizeFunctionTag,
+  suggestFunctionTags,
+} from "./functionTags.ts";
+import {
+  isUpstreamUnavailable,
+  upstreamFailureReason,
+} from "./resilience.utils.ts";
+import { Message, MessageKey } from "./i18n.utils.ts";
+
+export type FollowType = "people" | "function_tag" | "organisation";
+
+// Parsed follow parameters, before verification
+export interface FollowQuery {
+  followType: FollowType;
+  followArg: string;
+  tagValue?: string;
+  identity?: string;
+  verify: boolean;
+  source?: string; // src parameter: poster or campaign the link was shared on
+}
+
+// Canonical follow target, as verified on JORFSearch when requested
+export interface FollowTarget {
+  followType: FollowType;
+  followArg: string; // canonical value of the name, organisation_id or function_tag parameter
+  tagValue?: string;
+  identity?: string;
+  followLabel: string;
+  startCommand: string;
+  params: string; // query string of "/" and /qrcode, encoded
+  source?: string;
+}
+
+export type FollowErrorCode =
+  | "invalid_parameter"
+  | "exclusive_parameters"
+  | "unknown_function_tag"
+  | "verification_required"
+  | "not_found"
+  | "ambiguous"
+  | "upstream_unavailable";
+
+const FOLLOW_ERROR_STATUS: Record<FollowErrorCode, number> = {
+  invalid_parameter: 400,
+  exclusive_parameters: 400,
+  unknown_function_tag: 400,
+  verification_required: 400,
+  not_found: 404,
+  ambiguous: 409,
+  upstream_unavailable: 503,
+};
+
+export interface FollowError {
+  status: number;
+  code: FollowErrorCode;
+  message: Message; // translated in the locale of the response
+  suggestions?: string[];
+  candidates?: JORFPersonIdentity[];
+}
+
+const FOLLOW_PARAMETERS = [
+  ["people", "name"],
+  ["organisation", "organisation_id"],
+  ["function_tag", "function_tag"],
+] as const;
+
+const WIKIDATA_ID_REGEX = /^Q\d+$/;
+// Form of the JORFSearch tags once normalized, such as sous_prefet
+const FUNCTION_TAG_REGEX = /^[a-z][a-z0-9_]*$/;
+
+// Longer values are not names nor tags, only a way to make us call JORFSearch
+const MAX_PARAMETER_LENGTH = 200;
+
+// Campaign names such as affiche-metro or tract_2025.06, counted in the stats
+const SOURCE_REGEX = /^[\w.-]{1,64}$/;
+// Names of the members of Object.prototype are never campaigns
+const RESERVED_SOURCES = ["__proto__", "constructor", "prototype"];
+
+export function followError(
+  code: FollowErrorCode,
+  key: MessageKey,
+  values?: Record<string, string>,
+  details: Pick<FollowError, "suggestions" | "candidates"> = {},
+): FollowError {
+  return {
+    status: FOLLOW_ERROR_STATUS[code],
+    code,
+    message: { key, values },
+    ...details,
+  };
+}
+
+export function isFollowError(value: object): value is FollowError {
+  return "code" in value;
+}
+
+/*
+ * Follow parameters shared by "/", /qrcode, the messenger routes and the batch
+ * bodies: name, organisation_id or function_tag (exclusive), function_tag_value,
+ * identity, verify and src. Undefined when no target is given.
+ */
+export function parseFollowQuery(
+  query: Record<string, unknown>,
+): FollowQuery | FollowError | undefined {
+  const given = FOLLOW_PARAMETERS.filter(
+    ([, key]) => query[key] != undefined && query[key] !== "",
+  );
+  if (given.length === 0) return undefined;
+  if (given.length > 1)
+    return followError("exclusive_parameters", "error.exclusive_parameters");
+
+  const [followType, key] = given[0];
+  const value = query[key];
+  if (typeof value !== "string")
+    return followError("invalid_parameter", "error.parameter_not_string", {
+      PARAMETER: key,
+    });
+
+  for (const parameter of [key, "function_tag_value", "identity"]) {
+    const parameterValue = query[parameter];
+    if (
+      typeof parameterValue === "string" &&
+      parameterValue.length > MAX_PARAMETER_LENGTH
+    )
+      return followError("invalid_parameter", "error.parameter_too_long", {
+        PARAMETER: parameter,
+        MAX: String(MAX_PARAMETER_LENGTH),
+      });
+  }
+
+  const source = parseSource(query.src);
+  if (source === null)
+    return followError("invalid_parameter", "error.source_format");
+
+  let verify = true;
+  if (query.verify != undefined) {
+    const parsed = parseBoolean(query.verify);
+    if (parsed === undefined)
+      return followError("invalid_parameter", "error.parameter_not_boolean", {
+        PARAMETER: "verify",
+      });
+    verify = parsed;
+  }
+
+  let tagValue: string | undefined;
+  if (query.function_tag_value != undefined) {
+    if (followType !== "function_tag")
+      return followError("invalid_parameter", "error.tag_value_requires_tag");
+    if (
+      typeof query.function_tag_value !== "string" ||
+      query.function_tag_value.trim() === ""
+    )
+      return followError("invalid_parameter", "error.tag_value_empty");
+    tagValue = query.function_tag_value.trim();
+  }
+
+  // identity: picks one person when several match the name
+  const identity =
+    followType === "people" && typeof query.identity === "string"
+      ? query.identity.trim() || undefined
+      : undefined;
+
+  switch (followType) {
+    case "people": {
+      const name = value.trim().replace(/\s+/g, " ");
+      if (name.split(" ").length < 2)
+        return followError("invalid_parameter", "error.name_two_words");
+      return { followType, followArg: name, identity, verify, source };
+    }
+
+    case "organisation": {
+      const wikidataId = value.trim().toUpperCase();
+      if (!WIKIDATA_ID_REGEX.test(wikidataId))
+        return followError("invalid_parameter", "error.organisation_id_format");
+      // The organisation name only comes from JORFSearch
+      if (!verify)
+        return followError(
+          "verification_required",
+          "error.organisation_verification_required",
+        );
+      return { followType, followArg: wikidataId, verify, source };
+    }
+
+    case "function_tag": {
+      const tag = normalizeFunctionTag(value);
+      // Tags missing from the catalogue are checked on JORFSearch instead
+      if (!FUNCTION_TAG_REGEX.test(tag)) return unknownFunctionTag(value);
+      return { followType, followArg: tag, tagValue, verify, source };
+    }
+  }
+}
+
+function unknownFunctionTag(tag: string): FollowError {
+  const suggestions = suggestFunctionTags(tag);
+  return followError(
+    "unknown_function_tag",
+    suggestions.length > 0
+      ? "error.unknown_function_tag_suggestions"
+      : "error.unknown_function_tag",
+    { TAG: tag, SUGGESTIONS: suggestions.join(", ") },
+    { suggestions },
+  );
+}
+
+// Undefined when not given, null when invalid
+export function parseSource(value: unknown): string | undefined | null {
+  if (value == undefined || value === "") return undefined;
+  return typeof value === "string" &&
+    SOURCE_REGEX.test(value) &&
+    !RESERVED_SOURCES.includes(value)
+    ? value
+    : null;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  return undefined;
+}
+
+// Verify the target on JORFSearch when requested and build its canonical form
+export async function resolveFollowTarget(
+  query: FollowQuery,
+): Promise<FollowTarget | FollowError> {
+  try {
+    return await verifyFollowTarget(query);
+  } catch (error) {
+    // Not the same as "not found": the target may well exist
+    if (!isUpstreamUnavailable(error)) throw error;
+    console.log(
+      `JORFSearch unavailable for ${query.followType} "${query.followArg}": ${upstreamFailureReason(error)}`,
+    );
+    return followError("upstream_unavailable", "error.upstream_unavailable");
+  }
+}
+
+async function verifyFollowTarget(
+  query: FollowQuery,
+): Promise<FollowTarget | FollowError> {
+  const { followType, tagValue, verify } = query;
+  let { followArg, identity } = query;
+  let followLabel = followArg;
+
+  switch (followType) {
+    case "people": {
+      if (!verify) break;
+      const JORFResult = await callJORFSearchPeople(followArg);
+      if (JORFResult.length === 0)
+        return followError("not_found", "error.person_not_found", {
+          NAME: followArg,
+        });
+      const identities = listJORFPeopleIdentities(JORFResult);
+      let chosen: JORFPersonIdentity | undefined = identities[0];
+      if (identities.length > 1) {
+        chosen =
+          identity !== undefined
+            ? findJORFPersonIdentity(identities, identity)
+            : undefined;
+        if (chosen === undefined)
+          return followError(
+            "ambiguous",
+            "error.person_ambiguous",
+            { NAME: followArg },
+            { candidates: identities },
+          );
+      }
+      followArg = `${chosen.prenom} ${chosen.nom}`;
+      followLabel = followArg;
+      identity = identities.length > 1 ? followArg : undefined;
+      break;
+    }
+
+    case "organisation": {
+      const JORFResult =
+        await callJORFSearchOrganisationByWikidataId(followArg);
+      if (JORFResult.length === 0)
+        return followError("not_found", "error.organisation_not_found", {
+          ID: followArg,
+        });
+      if (JORFResult.length > 1)
+        return followError("ambiguous", "error.organisation_ambiguous", {
+          ID: followArg,
+        });
+      followArg = JORFResult[0].id;
+      followLabel = JORFResult[0].name;
+      break;
+    }
+
+    case "function_tag": {
+      followLabel = functionTagLabel(followArg, "plural", tagValue);
+      const known = isFunctionTag(followArg);
+      if (!verify && known) break;
+      const JORFResult = await callJORFSearchTag(followArg, tagValue);
+      if (JORFResult.length === 0)
+        return known
+          ? followError("not_found", "error.function_tag_not_found", {
+              TAG: followLabel,
+            })
+          : unknownFunctionTag(followArg);
+      break;
+    }
+  }
+
+  return {
+    followType,
+    followArg,
+    tagValue,
+    identity,
+    followLabel,
+    startCommand: startCommandFor(followType, followArg, tagValue),
+    params: followParams(followType, followArg, { tagValue, identity }),
+    source: query.source,
+  };
+}
+
+/*
+ * Whether the query names a canonical target that JORFSearch returned lately,
+ * from the cache only. Catalogue tags without a value are known as they are.
+ */
+export async function isKnownFollowTarget(
+  query: FollowQuery,
+): Promise<boolean> {
+  const { followType, followArg, tagValue } = query;
+  switch (followType) {
+    case "people": {
+      const JORFResult = await peekJORFSearchPeople(followArg);
+      return (
+        JORFResult !== undefined &&
+        listJORFPeopleIdentities(JORFResult).some(
+          ({ prenom, nom }) => `${prenom} ${nom}` === followArg,
+        )
+      );
+    }
+
+    case "organisation": {
+      const JORFResult = await peekJORFSearchOrganisation(followArg);
+      return JORFResult?.length === 1 && JORFResult[0].id === followArg;
+    }
+
+    case "function_tag": {
+      if (isFunctionTag(followArg) && tagValue === undefined) return true;
+      const JORFResult = await peekJORFSearchTag(followArg, tagValue);
+      return JORFResult !== undefined && JORFResult.length > 0;
+    }
+  }
+}
+
+// Query string of "/" and /qrcode for a canonical target, encoded
+export function followParams(
+  followType: FollowType,
+  followArg: string,
+  { tagValue, identity }: { tagValue?: string; identity?: string } = {},
+): string {
+  const value = encodeURIComponent;
+  switch (followType) {
+    case "people":
+      return (
+        `name=${value(followArg)}` +
+        (identity !== undefined ? `&identity=${value(identity)}` : "")
+      );
+    case "organisation":
+      return `organisation_id=${value(followArg)}`;
+    case "function_tag":
+      return (
+        `function_tag=${value(followArg)}` +
+        (tagValue !== undefined ? `&function_tag_value=${value(tagValue)}` : "")
+      );
+  }
+}
+
+// Command sent to the bot to start following
+function startCommandFor(
+  followType: FollowType,
+  followArg: string,
+  tagValue?: string,
+): string {
+  let startCommand: string;
+  switch (followType) {
+    case "people":
+      startCommand = "Rechercher " + followArg;
+      break;
+    case "organisation":
+      startCommand = "SuivreO " + followArg;
+      break;
+    case "function_tag":
+      startCommand =
+        "SuivreF " +
+        followArg +
+        (tagValue !== undefined ? `="${tagValue}"` : "");
+      break;
+  }
+  return startCommand.replace("Suivre", "Rechercher"); // flow is prettier with "Rechercher"
+}
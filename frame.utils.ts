@@ -0,0 +1,253 @@
+import PDFDocument from "pdfkit";
+import { config } from "./config.ts";
+
+export const CAPTION_FONT_PATH = config.assets.font;
+export const CAPTION_FONT_FAMILY = "JoelSans";
+export const CAPTION_LINE_HEIGHT = 1.2; // in font sizes
+
+export interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameTemplate {
+  // Canvas size in pixels, printed at dpi
+  width: number;
+  height: number;
+  dpi: number;
+  // frame.png as is, or the JOÉL header placed on a plain background
+  header: "frame" | { left: number; top: number; width: number };
+  qr: { left: number; top: number; size: number };
+  caption: Box & { fontSize: number; minFontSize: number; maxLines: number };
+}
+
+export type FrameTemplateName =
+  | "classic"
+  | "poster_a4"
+  | "flyer_a6"
+  | "business_card"
+  | "social_square"
+  | "social_card"
+  | "sticker";
+
+export const DEFAULT_FRAME_TEMPLATE: FrameTemplateName = "classic";
+
+export const FRAME_TEMPLATES: Record<FrameTemplateName, FrameTemplate> = {
+  classic: {
+    width: 1024,
+    height: 1024,
+    dpi: 72,
+    header: "frame",
+    qr: { left: 262, top: 461, size: 500 },
+    caption: {
+      left: 62,
+      top: 398,
+      width: 900,
+      height: 76,
+      fontSize: 40,
+      minFontSize: 22,
+      maxLines: 2,
+    },
+  },
+  // 210 × 297 mm
+  poster_a4: {
+    width: 1240,
+    height: 1754,
+    dpi: 150,
+    header: { left: 120, top: 80, width: 1000 },
+    qr: { left: 245, top: 880, size: 750 },
+    caption: {
+      left: 80,
+      top: 640,
+      width: 1080,
+      height: 200,
+      fontSize: 72,
+      minFontSize: 36,
+      maxLines: 2,
+    },
+  },
+  // 105 × 148 mm
+  flyer_a6: {
+    width: 620,
+    height: 874,
+    dpi: 150,
+    header: { left: 60, top: 30, width: 500 },
+    qr: { left: 135, top: 420, size: 350 },
+    caption: {
+      left: 30,
+      top: 305,
+      width: 560,
+      height: 100,
+      fontSize: 40,
+      minFontSize: 20,
+      maxLines: 2,
+    },
+  },
+  // 85 × 55 mm, QR on the right
+  business_card: {
+    width: 1004,
+    height: 650,
+    dpi: 300,
+    header: { left: 30, top: 60, width: 520 },
+    qr: { left: 584, top: 135, size: 380 },
+    caption: {
+      left: 30,
+      top: 360,
+      width: 520,
+      height: 200,
+      fontSize: 48,
+      minFontSize: 24,
+      maxLines: 3,
+    },
+  },
+  social_square: {
+    width: 1080,
+    height: 1080,
+    dpi: 72,
+    header: { left: 190, top: 40, width: 700 },
+    qr: { left: 295, top: 545, size: 490 },
+    caption: {
+      left: 60,
+      top: 420,
+      width: 960,
+      height: 110,
+      fontSize: 56,
+      minFontSize: 28,
+      maxLines: 2,
+    },
+  },
+  // Link preview of Open Graph and Twitter Cards, QR on the right
+  social_card: {
+    width: 1200,
+    height: 630,
+    dpi: 72,
+    header: { left: 50, top: 60, width: 620 },
+    qr: { left: 710, top: 85, size: 460 },
+    caption: {
+      left: 40,
+      top: 410,
+      width: 640,
+      height: 170,
+      fontSize: 60,
+      minFontSize: 30,
+      maxLines: 2,
+    },
+  },
+  // 50 × 50 mm
+  sticker: {
+    width: 591,
+    height: 591,
+    dpi: 300,
+    header: { left: 125, top: 15, width: 340 },
+    qr: { left: 140, top: 265, size: 310 },
+    caption: {
+      left: 20,
+      top: 195,
+      width: 551,
+      height: 64,
+      fontSize: 30,
+      minFontSize: 16,
+      maxLines: 2,
+    },
+  },
+};
+
+// "Scannez pour suivre" in frame.png, covered and drawn again in other locales
+export const FRAME_PREFIX_BOX: FrameTemplate["caption"] = {
+  left: 176,
+  top: 300,
+  width: 672,
+  height: 104,
+  fontSize: 56,
+  minFontSize: 28,
+  maxLines: 1,
+};
+
+export function isFrameTemplate(value: string): value is FrameTemplateName {
+  return Object.hasOwn(FRAME_TEMPLATES, value);
+}
+
+// Only used to measure text, with the font of every output
+const measureDoc = new PDFDocument({ autoFirstPage: false });
+measureDoc.registerFont(CAPTION_FONT_FAMILY, CAPTION_FONT_PATH);
+measureDoc.font(CAPTION_FONT_FAMILY);
+
+function textWidth(text: string, fontSize: number): number {
+  return measureDoc.fontSize(fontSize).widthOfString(text);
+}
+
+export interface CaptionLayout {
+  fontSize: number;
+  lines: string[];
+}
+
+/*
+ * Largest font size at which the label fits the caption box, wrapping on
+ * spaces and after hyphens. Below minFontSize the last line is ellipsized.
+ */
+export function fitCaption(
+  label: string,
+  caption: FrameTemplate["caption"],
+): CaptionLayout {
+  const {
+    width,
+    height,
+    fontSize: maxFontSize,
+    minFontSize,
+    maxLines,
+  } = caption;
+  if (label.length === 0) return { fontSize: maxFontSize, lines: [] };
+
+  for (let fontSize = maxFontSize; fontSize >= minFontSize; fontSize -= 2) {
+    const lines = wrapCaption(label, width, fontSize);
+    if (
+      lines.length <= maxLines &&
+      lines.length * fontSize * CAPTION_LINE_HEIGHT <= height &&
+      lines.every((line) => textWidth(line, fontSize) <= width)
+    )
+      return { fontSize, lines };
+  }
+
+  const fontSize = minFontSize;
+  const wrapped = wrapCaption(label, width, fontSize);
+  const lines = wrapped
+    .slice(0, maxLines)
+    .map((line, index) =>
+      ellipsize(
+        line,
+        width,
+        fontSize,
+        index === maxLines - 1 && wrapped.length > maxLines,
+      ),
+    );
+  return { fontSize, lines };
+}
+
+// "Jean-Baptiste de La Rochefoucauld" -> "Jean-", "Baptiste ", "de ", …
+function wrapCaption(label: string, width: number, fontSize: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const token of label.trim().split(/(?<=[\s-])/)) {
+    if (line && textWidth((line + token).trimEnd(), fontSize) > width) {
+      lines.push(line.trimEnd());
+      line = token.trimStart();
+    } else line += token;
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+function ellipsize(
+  line: string,
+  width: number,
+  fontSize: number,
+  truncated = false,
+): string {
+  if (!truncated && textWidth(line, fontSize) <= width) return line;
+  let shortened = line;
+  while (shortened && textWidth(shortened + "…", fontSize) > width)
+    shortened = shortened.slice(0, -1);
+  return shortened.trimEnd() + "…";
+}
@@ -0,0 +1,157 @@
+export type FunctionTagForm = "masculine" | "feminine" | "plural";
+
+type FunctionTagLabels = Record<FunctionTagForm, string>;
+
+// French labels of the most followed JORFSearch function tags. JORFSearch knows
+// more: the others are followed once found there, and labelled by their key.
+export const FUNCTION_TAGS: Record<string, FunctionTagLabels> = {
+  ambassadeur: {
+    masculine: "Ambassadeur",
+    feminine: "Ambassadrice",
+    plural: "Ambassadeurs",
+  },
+  consul: {
+    masculine: "Consul",
+    feminine: "Consule",
+    plural: "Consuls",
+  },
+  consul_general: {
+    masculine: "Consul général",
+    feminine: "Consule générale",
+    plural: "Consuls généraux",
+  },
+  prefet: {
+    masculine: "Préfet",
+    feminine: "Préfète",
+    plural: "Préfets",
+  },
+  sous_prefet: {
+    masculine: "Sous-préfet",
+    feminine: "Sous-préfète",
+    plural: "Sous-préfets",
+  },
+  recteur: {
+    masculine: "Recteur",
+    feminine: "Rectrice",
+    plural: "Recteurs",
+  },
+  premier_ministre: {
+    masculine: "Premier ministre",
+    feminine: "Première ministre",
+    plural: "Premiers ministres",
+  },
+  ministre: {
+    masculine: "Ministre",
+    feminine: "Ministre",
+    plural: "Ministres",
+  },
+  secretaire_etat: {
+    masculine: "Secrétaire d'État",
+    feminine: "Secrétaire d'État",
+    plural: "Secrétaires d'État",
+  },
+  cabinet_ministeriel: {
+    masculine: "Membre de cabinet ministériel",
+    feminine: "Membre de cabinet ministériel",
+    plural: "Membres de cabinets ministériels",
+  },
+  directeur_administration_centrale: {
+    masculine: "Directeur d'administration centrale",
+    feminine: "Directrice d'administration centrale",
+    plural: "Directeurs d'administration centrale",
+  },
+  conseiller_etat: {
+    masculine: "Conseiller d'État",
+    feminine: "Conseillère d'État",
+    plural: "Conseillers d'État",
+  },
+  magistrat: {
+    masculine: "Magistrat",
+    feminine: "Magistrate",
+    plural: "Magistrats",
+  },
+  inspecteur_general: {
+    masculine: "Inspecteur général",
+    feminine: "Inspectrice générale",
+    plural: "Inspecteurs généraux",
+  },
+  president_universite: {
+    masculine: "Président d'université",
+    feminine: "Présidente d'université",
+    plural: "Présidents d'université",
+  },
+  officier_general: {
+    masculine: "Officier général",
+    feminine: "Officière générale",
+    plural: "Officiers généraux",
+  },
+};
+
+// "Sous-Préfet" or "sous prefet" -> "sous_prefet"
+export function normalizeFunctionTag(input: string): string {
+  return input
+    .trim()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // remove combining marks
+    .toLowerCase()
+    .replace(/[\s\-']+/g, "_");
+}
+
+export function isFunctionTag(tag: string): boolean {
+  return Object.hasOwn(FUNCTION_TAGS, tag);
+}
+
+// With a tag value: "Ambassadeurs (Italie)"
+export function functionTagLabel(
+  tag: string,
+  form: FunctionTagForm = "plural",
+  tagValue?: string,
+): string {
+  const label = isFunctionTag(tag) ? FUNCTION_TAGS[tag][form] : tag;
+  return tagValue !== undefined ? `${label} (${tagValue})` : label;
+}
+
+// Tags whose key or one of its labels starts with the query, for autocompletion
+export function searchFunctionTags(query: string): string[] {
+  const normalized = normalizeFunctionTag(query);
+  if (normalized.length === 0) return [];
+  return Object.entries(FUNCTION_TAGS)
+    .filter(([tag, labels]) =>
+      [tag, ...Object.values(labels).map(normalizeFunctionTag)].some(
+        (candidate) =>
+          candidate.startsWith(normalized) ||
+          candidate.includes("_" + normalized),
+      ),
+    )
+    .map(([tag]) => tag);
+}
+
+// Closest known tags, to help fixing a typo in a link
+export function suggestFunctionTags(input: string, max = 3): string[] {
+  const normalized = normalizeFunctionTag(input);
+  return Object.keys(FUNCTION_TAGS)
+    .map((tag) => ({
+      tag,
+      distance: tag.includes(normalized) ? 0 : levenshtein(normalized, tag),
+    }))
+    .filter(({ distance }) => distance <= Math.max(2, normalized.length / 3))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, max)
+    .map(({ tag }) => tag);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
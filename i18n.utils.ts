@@ -0,0 +1,66 @@
+import express from "express";
+import fr from "./locales/fr.json" with { type: "json" };
+import en from "./locales/en.json" with { type: "json" };
+
+export type Locale = "fr" | "en";
+
+// The first one is the default, answered when nothing else matches
+export const LOCALES: Locale[] = ["fr", "en"];
+export const DEFAULT_LOCALE: Locale = "fr";
+
+// French is the reference: every catalogue must have all of its messages
+type Catalogue = typeof fr;
+export type MessageKey = keyof Catalogue;
+
+const CATALOGUES: Record<Locale, Catalogue> = { fr, en };
+
+// A message to translate once the locale of the response is known
+export interface Message {
+  key: MessageKey;
+  values?: Record<string, string>;
+}
+
+// Set by localeNegotiation for every route, the type of res.locals is Express's
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Locals {
+      locale: Locale;
+    }
+  }
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as unknown[]).includes(value);
+}
+
+// "Suivre {NAME} sur JOEL" with values {NAME: "Jean Dupont"}
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  values: Record<string, string> = {},
+): string {
+  return CATALOGUES[locale][key].replace(
+    /\{([A-Z][A-Z0-9_]*)\}/g,
+    (placeholder, name: string) => values[name] ?? placeholder,
+  );
+}
+
+export function translateMessage(locale: Locale, message: Message): string {
+  return translate(locale, message.key, message.values);
+}
+
+/*
+ * Locale of the response in res.locals.locale: the lang parameter when it is
+ * supported, else the best match of Accept-Language, else French.
+ */
+export function localeNegotiation(): express.RequestHandler {
+  return (req, res, next) => {
+    const { lang } = req.query;
+    res.locals.locale = isLocale(lang)
+      ? lang
+      : ((req.acceptsLanguages(...LOCALES) || DEFAULT_LOCALE) as Locale);
+    res.vary("Accept-Language");
+    next();
+  };
+}
@@ -0,0 +1,179 @@
+import express from "express";
+import net from "net";
+import { translate } from "./i18n.utils.ts";
+
+export interface RateLimitPolicy {
+  limit: number; // requests per window
+  windowMs: number;
+}
+
+interface WindowCounter {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+// Fixed window counters, keyed by client or "*" for the global budget
+export function createRateLimiter({ limit, windowMs }: RateLimitPolicy) {
+  const counters = new Map<string, WindowCounter>();
+  let nextSweep = Date.now() + windowMs;
+
+  function take(key: string): RateLimitResult {
+    const now = Date.now();
+    // Forget the clients whose window is over, the map stays bounded
+    if (now >= nextSweep) {
+      for (const [counterKey, counter] of counters)
+        if (counter.resetAt <= now) counters.delete(counterKey);
+      nextSweep = now + windowMs;
+    }
+
+    let counter = counters.get(key);
+    if (counter === undefined || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + windowMs };
+      counters.set(key, counter);
+    }
+    const allowed = counter.count < limit;
+    if (allowed) counter.count++;
+    return {
+      allowed,
+      limit,
+      remaining: limit - counter.count,
+      resetAt: counter.resetAt,
+    };
+  }
+
+  return { take, policy: { limit, windowMs } };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// Exact addresses or IPv4 CIDR ranges, such as 10.0.0.0/8
+export function parseAllowlist(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
+
+export function isAllowlisted(ip: string, allowlist: string[]): boolean {
+  const address = ip.replace(/^::ffff:/, ""); // IPv4-mapped IPv6
+  return allowlist.some((entry) => {
+    if (!entry.includes("/")) return entry === address;
+    const [range, bits] = entry.split("/");
+    if (!net.isIPv4(range) || !net.isIPv4(address)) return false;
+    const prefix = Number(bits);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) return false;
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return (
+      (ipv4ToInt(range) & mask) >>> 0 === (ipv4ToInt(address) & mask) >>> 0
+    );
+  });
+}
+
+function ipv4ToInt(ip: string): number {
+  return ip
+    .split(".")
+    .reduce((value, octet) => ((value << 8) | Number(octet)) >>> 0, 0);
+}
+
+/*
+ * Per-client and global budgets, with the RateLimit-* headers of the IETF
+ * draft describing the most restrictive one. Allowlisted clients are never
+ * limited.
+ */
+export function rateLimit({
+  perClient,
+  global,
+  allowlist,
+}: {
+  perClient: RateLimiter;
+  global: RateLimiter;
+  allowlist: string[];
+}): express.RequestHandler {
+  return (req, res, next) => {
+    const ip = req.ip ?? "";
+    if (isAllowlisted(ip, allowlist)) {
+      next();
+      return;
+    }
+
+    const clientResult = perClient.take(ip);
+    // Rejected client requests do not use the global budget
+    const results = clientResult.allowed
+      ? [clientResult, global.take("*")]
+      : [clientResult];
+    const policies = [perClient.policy, global.policy];
+    const binding = results.reduce((a, b) =>
+      !b.allowed || b.remaining < a.remaining ? b : a,
+    );
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((binding.resetAt - Date.now()) / 1000),
+    );
+
+    res.set("RateLimit-Policy", policies.map(formatPolicy).join(", "));
+    res.set("RateLimit-Limit", String(binding.limit));
+    res.set("RateLimit-Remaining", String(Math.max(0, binding.remaining)));
+    res.set("RateLimit-Reset", String(resetSeconds));
+
+    if (results.some((result) => !result.allowed)) {
+      res.set("Retry-After", String(resetSeconds));
+      res.status(429).json({
+        error: translate(res.locals.locale, "error.too_many_requests"),
+      });
+      return;
+    }
+    next();
+  };
+}
+
+function formatPolicy({ limit, windowMs }: RateLimitPolicy): string {
+  return `${String(limit)};w=${String(Math.ceil(windowMs / 1000))}`;
+}
+
+// Too many jobs are already waiting for a slot
+export class ConcurrencyLimitError extends Error {
+  constructor() {
+    super("Too many jobs waiting.");
+    this.name = "ConcurrencyLimitError";
+  }
+}
+
+/*
+ * At most `concurrency` jobs run at once, up to `maxQueue` others wait for a
+ * slot in arrival order and the next ones are rejected.
+ */
+export function createConcurrencyLimiter({
+  concurrency,
+  maxQueue,
+}: {
+  concurrency: number;
+  maxQueue: number;
+}) {
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  async function run<T>(job: () => Promise<T>): Promise<T> {
+    if (running >= concurrency) {
+      if (queue.length >= maxQueue) throw new ConcurrencyLimitError();
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else running++;
+
+    try {
+      return await job();
+    } finally {
+      // The slot is handed over to the next job, or released
+      const next = queue.shift();
+      if (next !== undefined) next();
+      else running--;
+    }
+  }
+
+  return { run };
+}
@@ -0,0 +1,99 @@
+export type MessengerId =
+  | "tchap"
+  | "whatsapp"
+  | "telegram"
+  | "matrix"
+  | "signal";
+
+export interface MessengerProvider {
+  id: MessengerId; // route /<id>, Umami event /link-<id>
+  label: string;
+  // Environment variables, all required to enable the messenger
+  configKeys: string[];
+  icon: string;
+  order: number; // position of the button on the landing page
+  // Encoded link to the bot, carrying the start message when the platform can pre-fill it
+  link: (config: string[], message?: string) => string;
+  prefillsCommand: boolean;
+}
+
+export interface Messenger extends Omit<MessengerProvider, "link"> {
+  link: (message?: string) => string;
+}
+
+// Pre-filled message of a link, encoded as a whole: it may contain & or #
+function textParam(message?: string): string {
+  return message !== undefined ? `?text=${encodeURIComponent(message)}` : "";
+}
+
+// Messengers the JOEL bot is available on
+export const MESSENGER_PROVIDERS: MessengerProvider[] = [
+  {
+    id: "tchap",
+    label: "Tchap",
+    configKeys: ["TCHAP_BOT_USERNAME"],
+    icon: "https://www.tchap.gouv.fr/themes/tchap/img/logos/tchap-logo.svg",
+    order: 1,
+    link: ([username]) =>
+      encodeURI(`https://www.tchap.gouv.fr/#/user/@${username}`),
+    prefillsCommand: false,
+  },
+  {
+    id: "whatsapp",
+    label: "WhatsApp",
+    configKeys: ["WHATSAPP_BOT_PHONE_NUMBER"],
+    icon: "https://upload.wikimedia.org/wikipedia/commons/6/6b/WhatsApp.svg",
+    order: 2,
+    link: ([phoneNumber], message) =>
+      encodeURI(`https://wa.me/${phoneNumber}`) + textParam(message),
+    prefillsCommand: true,
+  },
+  {
+    id: "telegram",
+    label: "Telegram",
+    configKeys: ["TELEGRAM_BOT_NAME"],
+    icon: "https://upload.wikimedia.org/wikipedia/commons/8/82/Telegram_logo.svg",
+    order: 3,
+    link: ([botName], message) =>
+      encodeURI(`https://t.me/${botName}`) + textParam(message),
+    prefillsCommand: true,
+  },
+  {
+    id: "matrix",
+    label: "Matrix",
+    configKeys: ["MATRIX_BOT_USERNAME"],
+    icon: "https://upload.wikimedia.org/wikipedia/commons/1/13/Element_%28software%29_logo_%282024%29.svg",
+    order: 4,
+    link: ([username]) => encodeURI(`https://matrix.to/#/@${username}`),
+    prefillsCommand: false,
+  },
+  {
+    id: "signal",
+    label: "Signal",
+    configKeys: ["SIGNAL_BOT_PHONE_NUMBER"],
+    icon: "https://upload.wikimedia.org/wikipedia/commons/8/8d/Signal-Logo.svg",
+    order: 5,
+    link: ([phoneNumber]) => encodeURI(`https://signal.me/#p/${phoneNumber}`),
+    prefillsCommand: false,
+  },
+];
+
+// Providers whose configuration is set, in display order
+export function configuredMessengers(
+  env: Record<string, string | undefined>,
+): Messenger[] {
+  return MESSENGER_PROVIDERS.flatMap((provider) => {
+    const config = provider.configKeys.map((key) => env[key]);
+    if (config.some((value) => value === undefined || value === "")) return [];
+    return [
+      {
+        ...provider,
+        link: (message?: string) => provider.link(config as string[], message),
+      },
+    ];
+  }).sort((a, b) => a.order - b.order);
+}
+
+export function messengerConfigKeys(): string[] {
+  return MESSENGER_PROVIDERS.flatMap((provider) => provider.configKeys);
+}
@@ -0,0 +1,685 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import sharp from "sharp";
+import { fileURLToPath } from "url";
+import { createCache, createMemoryStore } from "./cache.utils.ts";
+import {
+  CAPTION_FONT_FAMILY,
+  CAPTION_FONT_PATH,
+  CAPTION_LINE_HEIGHT,
+  DEFAULT_FRAME_TEMPLATE,
+  FRAME_TEMPLATES,
+  FrameTemplate,
+  FrameTemplateName,
+  FRAME_PREFIX_BOX,
+  fitCaption,
+} from "./frame.utils.ts";
+import { ErrorCorrectionLevel, ModuleStyle, QrStyle } from "./style.utils.ts";
+import { createConcurrencyLimiter } from "./limits.utils.ts";
+import { config } from "./config.ts";
+import { DEFAULT_LOCALE, Locale, LOCALES, translate } from "./i18n.utils.ts";
+
+export type OutputFormat = "png" | "webp" | "svg" | "pdf";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["png", "webp", "svg", "pdf"];
+
+export const OUTPUT_CONTENT_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+};
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FRAME_PATH = config.assets.frame;
+const LOGO_PATH = config.assets.logo;
+const FONT_BASE64 = await fs.readFile(CAPTION_FONT_PATH, {
+  encoding: "base64",
+});
+
+const TEXT_COLOR = "#62676c"; // gris JOÉL
+
+// Font and colour of the captions, once per SVG document
+export const CAPTION_SVG_DEFS = `
+      <defs>
+        <style>
+          @font-face {
+            font-family: '${CAPTION_FONT_FAMILY}';
+            src: url('data:font/ttf;base64,${FONT_BASE64}') format('truetype');
+            font-weight: 700;
+            font-style: normal;
+          }
+
+          .label {
+            font-family: '${CAPTION_FONT_FAMILY}', sans-serif;
+            font-weight: 700;
+            fill: ${TEXT_COLOR};
+          }
+        </style>
+      </defs>`;
+
+// Static assets are read once at startup
+const FRAME_BUFFER = await fs.readFile(FRAME_PATH);
+const LOGO_BUFFER = await fs.readFile(LOGO_PATH);
+const LOGO_META = await sharp(LOGO_BUFFER).metadata();
+
+// Embedded as-is in the vector outputs
+const LOGO_BASE64 = LOGO_BUFFER.toString("base64");
+
+// JOÉL logo and "Scannez pour suivre", cut out of frame.png
+const FRAME_HEADER_CROP = { left: 176, top: 48, width: 672, height: 360 };
+const FRAME_BACKGROUND = "#fcfeff";
+
+const FONTCONFIG_FILE_PATH = path.join(__dirname, "fontconfig.conf");
+if (process.env.FONTCONFIG_FILE === undefined) {
+  try {
+    await fs.access(FONTCONFIG_FILE_PATH);
+  } catch {
+    const fontConfig = `<?xml version="1.0"?>\n<!DOCTYPE fontconfig SYSTEM "fonts.dtd">\n<fontconfig>\n  <dir>${path.dirname(
+      CAPTION_FONT_PATH,
+    )}</dir>\n</fontconfig>\n`;
+    await fs.writeFile(FONTCONFIG_FILE_PATH, fontConfig, "utf8");
+  }
+  process.env.FONTCONFIG_FILE = FONTCONFIG_FILE_PATH;
+}
+
+// Background of each template in each locale, at its native size
+const templateBackgrounds = new Map<
+  string,
+  { buffer: Buffer; base64: string }
+>();
+for (const locale of LOCALES) {
+  const frame = await localizedFrame(locale);
+  const header = await sharp(frame).extract(FRAME_HEADER_CROP).png().toBuffer();
+  for (const [name, template] of Object.entries(FRAME_TEMPLATES)) {
+    const buffer = await templateBackground(template, frame, header);
+    templateBackgrounds.set(backgroundKey(name as FrameTemplateName, locale), {
+      buffer,
+      base64: buffer.toString("base64"),
+    });
+  }
+}
+
+const QR_SIZE = 600;
+const QR_MARGIN = 1;
+const QR_DARK = "#000000";
+const QR_LIGHT = "#ffffff";
+const LOGO_SCALE = 0.45; // slightly smaller without a white plate
+
+// Resized logos, keyed by path and target width
+const resizedLogos = new Map<string, Buffer>();
+await resizedLogo(LOGO_PATH, Math.floor(QR_SIZE * LOGO_SCALE));
+
+// Bump when the rendering changes so that clients drop their cached images
+const RENDER_VERSION = "3";
+const RENDER_CACHE_MAX_ENTRIES = 100;
+// A 4096 px poster weighs a few MB: the entry count alone does not bound memory
+const RENDER_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+const RENDER_CACHE_TTL = 24 * 60 * 60 * 1000;
+export const RENDER_CACHE_CONTROL = "public, max-age=86400";
+
+// Bounds of the size parameter, in pixels
+export const MIN_OUTPUT_SIZE = 64;
+export const MAX_OUTPUT_SIZE = 4096;
+
+const renderCache = createCache(
+  createMemoryStore(RENDER_CACHE_MAX_ENTRIES, {
+    maxBytes: RENDER_CACHE_MAX_BYTES,
+    sizeOf: (value) => (value as Buffer).length,
+  }),
+);
+
+// sharp compositing is CPU bound: cache misses wait for one of these slots
+const renderSlots = createConcurrencyLimiter({
+  concurrency: config.limits.renderConcurrency,
+  maxQueue: config.limits.renderMaxQueue,
+});
+
+export interface RenderOptions extends QrStyle {
+  format: OutputFormat;
+  frameEnabled: boolean;
+  template?: FrameTemplateName;
+  followLabel?: string;
+  locale?: Locale; // of the frame prefix, French by default
+  // Output width in pixels: of the QR alone, or of the whole framed composition
+  size?: number;
+}
+
+function renderCacheKey(qr_url: string, options: RenderOptions): string {
+  return JSON.stringify([
+    RENDER_VERSION,
+    qr_url,
+    Object.entries(options)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  ]);
+}
+
+// Strong ETag derived from the rendering inputs, known before rendering
+export function renderEtag(qr_url: string, options: RenderOptions): string {
+  const hash = crypto
+    .createHash("sha1")
+    .update(renderCacheKey(qr_url, options))
+    .digest("base64url");
+  return `"${hash}"`;
+}
+
+export async function renderQrCodeCached(
+  qr_url: string,
+  options: RenderOptions,
+): Promise<Buffer> {
+  return await renderCache.wrap(
+    "image",
+    renderCacheKey(qr_url, options),
+    { ttl: RENDER_CACHE_TTL, negativeTtl: RENDER_CACHE_TTL },
+    () => false,
+    // Throws a ConcurrencyLimitError when too many renders are waiting
+    () => renderSlots.run(() => renderQrCode(qr_url, options)),
+  );
+}
+
+export function getRenderCacheStats() {
+  return renderCache.stats();
+}
+
+export async function renderQrCode(
+  qr_url: string,
+  options: RenderOptions,
+): Promise<Buffer> {
+  const { format, frameEnabled, followLabel } = options;
+  switch (format) {
+    case "svg":
+      return Buffer.from(generateQrSvg(qr_url, options));
+
+    case "pdf":
+      return await generateQrPdf(qr_url, options);
+
+    case "png":
+    case "webp": {
+      const qrBuffer = await generateQrWithLogo(qr_url, qrStyle(options));
+      const image = frameEnabled
+        ? sharp(await composeFrame(qrBuffer, followLabel ?? "", options))
+        : sharp(qrBuffer);
+      return format === "webp"
+        ? await image.webp({ lossless: true }).toBuffer()
+        : await image.png().toBuffer();
+    }
+  }
+}
+
+export async function generateQrWithLogo(
+  qr_url: string,
+  {
+    qrSize = QR_SIZE,
+    margin = QR_MARGIN,
+    dark = QR_DARK,
+    light = QR_LIGHT,
+    logoPath = LOGO_PATH,
+    logo = true,
+    logoScale = LOGO_SCALE,
+    errorCorrectionLevel = "H",
+    moduleStyle = "square",
+  }: {
+    qrSize?: number;
+    margin?: number;
+    dark?: string;
+    light?: string;
+    logoPath?: string;
+    logo?: boolean;
+    logoScale?: number;
+    errorCorrectionLevel?: ErrorCorrectionLevel;
+    moduleStyle?: ModuleStyle;
+  } = {},
+) {
+  // 1) QR buffer
+  const symbolBuffer =
+    moduleStyle === "square"
+      ? await QRCode.toBuffer(qr_url, {
+          errorCorrectionLevel,
+          type: "png",
+          width: qrSize,
+          margin,
+          color: { dark, light },
+        })
+      : // other module shapes are only drawn by the vector path
+        await sharp(
+          Buffer.from(
+            qrModulesSvg(qr_url, {
+              qrSize,
+              margin,
+              dark,
+              light,
+              errorCorrectionLevel,
+              moduleStyle,
+            }),
+          ),
+        )
+          .png()
+          .toBuffer();
+
+  // qrcode draws at least one pixel per module, small sizes are scaled down
+  const { width: symbolWidth } = await sharp(symbolBuffer).metadata();
+  const qrBuffer =
+    symbolWidth > qrSize
+      ? await sharp(symbolBuffer).resize(qrSize, qrSize).png().toBuffer()
+      : symbolBuffer;
+
+  if (!logo) return qrBuffer;
+
+  // 2) Transparent logo buffer at target size (keep alpha!)
+  const targetLogoWidth = Math.floor(qrSize * logoScale);
+  const logoBuf = await resizedLogo(logoPath, targetLogoWidth);
+
+  const logoMeta = await sharp(logoBuf).metadata();
+
+  // 3) Center the logo directly onto the QR
+
+  const left = Math.floor((qrSize - logoMeta.width) / 2);
+
+  const top = Math.floor((qrSize - logoMeta.height) / 2);
+
+  return await sharp(qrBuffer)
+    .composite([{ input: logoBuf, left, top }]) // no background
+    .png()
+    .toBuffer();
+}
+
+async function resizedLogo(logoPath: string, width: number): Promise<Buffer> {
+  const key = `${logoPath}:${String(width)}`;
+  let logoBuf = resizedLogos.get(key);
+  if (logoBuf === undefined) {
+    logoBuf = await sharp(logoPath === LOGO_PATH ? LOGO_BUFFER : logoPath)
+      .resize({ width, fit: "inside" })
+      .png() // preserve transparency
+      .toBuffer();
+    resizedLogos.set(key, logoBuf);
+  }
+  return logoBuf;
+}
+
+function backgroundKey(name: FrameTemplateName, locale: Locale): string {
+  return `${name}:${locale}`;
+}
+
+// frame.png says "Scannez pour suivre": other locales write their own prefix
+async function localizedFrame(locale: Locale): Promise<Buffer> {
+  if (locale === DEFAULT_LOCALE) return FRAME_BUFFER;
+  const { left, top, width, height } = FRAME_PREFIX_BOX;
+  return await sharp(FRAME_BUFFER)
+    .composite([
+      {
+        input: {
+          create: { width, height, channels: 4, background: FRAME_BACKGROUND },
+        },
+        left,
+        top,
+      },
+      {
+        input: Buffer.from(
+          captionSvg(FRAME_PREFIX_BOX, translate(locale, "frame.prefix")),
+        ),
+        left,
+        top,
+      },
+    ])
+    .png()
+    .toBuffer();
+}
+
+async function templateBackground(
+  template: FrameTemplate,
+  frame: Buffer,
+  frameHeader: Buffer,
+): Promise<Buffer> {
+  const { header } = template;
+  if (header === "frame") return frame;
+
+  const headerBuffer = await sharp(frameHeader)
+    .resize({ width: header.width })
+    .png()
+    .toBuffer();
+  return await sharp({
+    create: {
+      width: template.width,
+      height: template.height,
+      channels: 4,
+      background: FRAME_BACKGROUND,
+    },
+  })
+    .composite([{ input: headerBuffer, left: header.left, top: header.top }])
+    .png()
+    .toBuffer();
+}
+
+async function composeFrame(
+  qrBuffer: Buffer,
+  followLabel: string,
+  options: RenderOptions,
+): Promise<Buffer> {
+  /* 1) gabarit et échelle ----------------------------------------------- */
+  const { name, template, scale, width, height } = frameLayout(options);
+  const background =
+    templateBackgrounds.get(
+      backgroundKey(name, options.locale ?? DEFAULT_LOCALE),
+    )?.buffer ?? FRAME_BUFFER;
+  const frame = sharp(
+    scale === 1
+      ? background
+      : await sharp(background).resize(width, height).png().toBuffer(),
+  );
+
+  /* 2) overlay SVG pour le texte dynamique, rasterisé à l'échelle ------- */
+  const { caption, qr } = template;
+  const textBuffer = Buffer.from(
+    captionSvg(template.caption, followLabel, scale),
+  );
+
+  /* 3) composition finale ----------------------------------------------- */
+  return await frame
+    .composite([
+      {
+        input: qrBuffer,
+        left: Math.round(qr.left * scale),
+        top: Math.round(qr.top * scale),
+      }, // QR
+      {
+        input: textBuffer,
+        left: Math.round(caption.left * scale),
+        top: Math.round(caption.top * scale),
+      }, // légende
+    ])
+    .png()
+    .toBuffer();
+}
+
+// Templates are drawn at their native size, size scales the whole composition
+function frameLayout(options: RenderOptions) {
+  const name = options.template ?? DEFAULT_FRAME_TEMPLATE;
+  const template = FRAME_TEMPLATES[name];
+  const scale = options.size !== undefined ? options.size / template.width : 1;
+  return {
+    name,
+    template,
+    scale,
+    width: Math.round(template.width * scale),
+    height: Math.round(template.height * scale),
+  };
+}
+
+function qrStyle(options: RenderOptions) {
+  const qrSize = options.frameEnabled
+    ? Math.round(
+        frameLayout(options).template.qr.size * frameLayout(options).scale,
+      )
+    : (options.size ?? QR_SIZE);
+  return {
+    qrSize,
+    margin: options.margin ?? QR_MARGIN,
+    dark: options.dark ?? QR_DARK,
+    light: options.light ?? QR_LIGHT,
+    logo: options.logo ?? true,
+    logoScale: options.logoScale ?? LOGO_SCALE,
+    errorCorrectionLevel: options.errorCorrectionLevel ?? "H",
+    moduleStyle: options.moduleStyle ?? "square",
+  };
+}
+
+// Caption box drawn in its own units, the label fitted to it
+export function captionSvg(
+  caption: FrameTemplate["caption"],
+  followLabel: string,
+  scale = 1,
+  defs = CAPTION_SVG_DEFS,
+): string {
+  const { width, height } = caption;
+  const { fontSize, lines } = fitCaption(followLabel, caption);
+  const lineHeight = fontSize * CAPTION_LINE_HEIGHT;
+  const firstLineY = (height - lines.length * lineHeight + lineHeight) / 2;
+
+  return `
+    <svg width="${String(Math.round(width * scale))}" height="${String(Math.round(height * scale))}"
+         viewBox="0 0 ${String(width)} ${String(height)}" xmlns="http://www.w3.org/2000/svg">${defs}
+      <text dominant-baseline="middle" text-anchor="middle" class="label" font-size="${String(fontSize)}">${lines
+        .map(
+          (line, index) =>
+            `<tspan x="50%" y="${String(firstLineY + index * lineHeight)}">${escapeXml(line)}</tspan>`,
+        )
+        .join("")}</text>
+    </svg>`;
+}
+
+// Same line centers as the SVG caption, in the current units of the document
+export function drawPdfCaption(
+  doc: PDFKit.PDFDocument,
+  caption: FrameTemplate["caption"],
+  followLabel: string,
+) {
+  const { fontSize, lines } = fitCaption(followLabel, caption);
+  const lineHeight = fontSize * CAPTION_LINE_HEIGHT;
+  doc.font(CAPTION_FONT_FAMILY).fontSize(fontSize).fillColor(TEXT_COLOR);
+  const firstLineY =
+    caption.top + (caption.height - lines.length * lineHeight + lineHeight) / 2;
+  lines.forEach((line, index) => {
+    const centerY = firstLineY + index * lineHeight;
+    doc.text(line, caption.left, centerY - doc.currentLineHeight() / 2, {
+      width: caption.width,
+      align: "center",
+      lineBreak: false,
+    });
+  });
+}
+
+/*
+ * Vector outputs draw the QR modules from the same symbol as the raster
+ * pipeline, one path for all dark modules. Square modules are merged in
+ * horizontal runs; finder patterns always stay square so codes remain scannable.
+ */
+function qrModulesPath(
+  qr_url: string,
+  {
+    margin,
+    errorCorrectionLevel,
+    moduleStyle,
+  }: Pick<
+    ReturnType<typeof qrStyle>,
+    "margin" | "errorCorrectionLevel" | "moduleStyle"
+  >,
+) {
+  const { modules } = QRCode.create(qr_url, {
+    errorCorrectionLevel,
+  });
+  const size = modules.size;
+  const isSquare = (row: number, col: number) =>
+    moduleStyle === "square" ||
+    (row < 7 && col < 7) ||
+    (row < 7 && col >= size - 7) ||
+    (row >= size - 7 && col < 7);
+
+  let d = "";
+  for (let row = 0; row < size; row++) {
+    let col = 0;
+    while (col < size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      if (!isSquare(row, col)) {
+        d += moduleShape(col + margin, row + margin, moduleStyle);
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < size && modules.get(row, col) && isSquare(row, col)) col++;
+      d += `M${String(start + margin)} ${String(row + margin)}h${String(col - start)}v1h-${String(col - start)}z`;
+    }
+  }
+
+  return { d, viewSize: size + margin * 2 };
+}
+
+function moduleShape(x: number, y: number, moduleStyle: ModuleStyle): string {
+  const n = (value: number) => String(Math.round(value * 100) / 100);
+  switch (moduleStyle) {
+    case "dots":
+      return `M${n(x + 0.05)} ${n(y + 0.5)}a0.45 0.45 0 1 0 0.9 0a0.45 0.45 0 1 0 -0.9 0z`;
+    case "rounded":
+      return `M${n(x + 0.3)} ${n(y)}h0.4a0.3 0.3 0 0 1 0.3 0.3v0.4a0.3 0.3 0 0 1 -0.3 0.3h-0.4a0.3 0.3 0 0 1 -0.3 -0.3v-0.4a0.3 0.3 0 0 1 0.3 -0.3z`;
+    case "square":
+      return `M${n(x)} ${n(y)}h1v1h-1z`;
+  }
+}
+
+// QR modules alone, without logo
+function qrModulesSvg(
+  qr_url: string,
+  style: Omit<ReturnType<typeof qrStyle>, "logo" | "logoScale">,
+  x = 0,
+  y = 0,
+): string {
+  const { d, viewSize } = qrModulesPath(qr_url, style);
+  const { qrSize, dark, light } = style;
+  return `
+    <svg x="${String(x)}" y="${String(y)}" width="${String(qrSize)}" height="${String(qrSize)}"
+         viewBox="0 0 ${String(viewSize)} ${String(viewSize)}" shape-rendering="${style.moduleStyle === "square" ? "crispEdges" : "geometricPrecision"}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="${String(viewSize)}" height="${String(viewSize)}" fill="${light}" />
+      <path d="${d}" fill="${dark}" />
+    </svg>`;
+}
+
+function logoSize(width: number) {
+  return { width, height: (width * LOGO_META.height) / LOGO_META.width };
+}
+
+function generateQrSvg(qr_url: string, options: RenderOptions): string {
+  const { frameEnabled, followLabel } = options;
+  const style = qrStyle(options);
+
+  const qrSvg = (x: number, y: number, qrSize: number) => {
+    const logo = logoSize(qrSize * style.logoScale);
+    return (
+      qrModulesSvg(qr_url, { ...style, qrSize }, x, y) +
+      (style.logo
+        ? `
+    <image href="data:image/png;base64,${LOGO_BASE64}"
+           x="${String(x + (qrSize - logo.width) / 2)}" y="${String(y + (qrSize - logo.height) / 2)}"
+           width="${String(logo.width)}" height="${String(logo.height)}" />`
+        : "")
+    );
+  };
+
+  if (!frameEnabled) {
+    const { qrSize } = style;
+    return `<svg width="${String(qrSize)}" height="${String(qrSize)}" viewBox="0 0 ${String(qrSize)} ${String(qrSize)}" xmlns="http://www.w3.org/2000/svg">${qrSvg(0, 0, qrSize)}
+</svg>`;
+  }
+
+  // Drawn in template units, the outer size applies the scale
+  const { name, template, width, height } = frameLayout(options);
+  const { qr, caption } = template;
+  const background = templateBackgrounds.get(
+    backgroundKey(name, options.locale ?? DEFAULT_LOCALE),
+  )?.base64;
+
+  // The caption is the same SVG overlay as the raster output, nested in place
+  const captionOverlay = captionSvg(caption, followLabel ?? "").replace(
+    "<svg ",
+    `<svg x="${String(caption.left)}" y="${String(caption.top)}" `,
+  );
+
+  return `<svg width="${String(width)}" height="${String(height)}" viewBox="0 0 ${String(template.width)} ${String(template.height)}" xmlns="http://www.w3.org/2000/svg">
+    <image href="data:image/png;base64,${background ?? ""}" width="${String(template.width)}" height="${String(template.height)}" />
+    ${qrSvg(qr.left, qr.top, qr.size)}
+    ${captionOverlay}
+</svg>`;
+}
+
+async function generateQrPdf(
+  qr_url: string,
+  options: RenderOptions,
+): Promise<Buffer> {
+  const { frameEnabled, followLabel } = options;
+  const style = qrStyle(options);
+  const { dark, light } = style;
+  const { d, viewSize } = qrModulesPath(qr_url, style);
+
+  // Unframed: 1 px of the raster output = 1 pt of the PDF page.
+  // Framed: drawn in template units, the page has the printed size of the template.
+  let pageW = style.qrSize;
+  let pageH = style.qrSize;
+  let unit = 1;
+  let layout: ReturnType<typeof frameLayout> | undefined;
+  if (frameEnabled) {
+    layout = frameLayout(options);
+    unit = (layout.scale * 72) / layout.template.dpi;
+    pageW = layout.template.width * unit;
+    pageH = layout.template.height * unit;
+  }
+
+  const doc = new PDFDocument({ size: [pageW, pageH], margin: 0 });
+  doc.registerFont(CAPTION_FONT_FAMILY, CAPTION_FONT_PATH);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => {
+      resolve(Buffer.concat(chunks));
+    });
+    doc.on("error", reject);
+  });
+
+  doc.scale(unit);
+
+  if (layout) {
+    const { template } = layout;
+    const background = templateBackgrounds.get(
+      backgroundKey(layout.name, options.locale ?? DEFAULT_LOCALE),
+    )?.buffer;
+    doc.image(background ?? FRAME_BUFFER, 0, 0, {
+      width: template.width,
+      height: template.height,
+    });
+  }
+
+  const qrLeft = layout?.template.qr.left ?? 0;
+  const qrTop = layout?.template.qr.top ?? 0;
+  const qrSize = layout?.template.qr.size ?? style.qrSize;
+  doc.save();
+  doc.translate(qrLeft, qrTop).scale(qrSize / viewSize);
+  doc.rect(0, 0, viewSize, viewSize).fill(light);
+  doc.path(d).fill(dark);
+  doc.restore();
+
+  if (style.logo) {
+    const logo = logoSize(qrSize * style.logoScale);
+    doc.image(
+      LOGO_BUFFER,
+      qrLeft + (qrSize - logo.width) / 2,
+      qrTop + (qrSize - logo.height) / 2,
+      { width: logo.width, height: logo.height },
+    );
+  }
+
+  if (layout && followLabel)
+    drawPdfCaption(doc, layout.template.caption, followLabel);
+
+  doc.end();
+  return await done;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
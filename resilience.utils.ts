@@ -0,0 +1,129 @@
+import axios from "axios";
+
+// The upstream could not answer: timeout, network error, 5xx or open circuit
+export class UpstreamUnavailableError extends Error {
+  constructor(upstream: string, cause?: unknown) {
+    super(`${upstream} is unavailable.`, { cause });
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+export function isUpstreamUnavailable(
+  error: unknown,
+): error is UpstreamUnavailableError {
+  return error instanceof UpstreamUnavailableError;
+}
+
+// Short reason for the logs: the network error code, the HTTP status, or why
+export function upstreamFailureReason(error: UpstreamUnavailableError): string {
+  const { cause } = error;
+  if (axios.isAxiosError(cause))
+    return cause.response !== undefined
+      ? `HTTP ${String(cause.response.status)}`
+      : (cause.code ?? cause.message);
+  return cause instanceof Error ? cause.message : "circuit open";
+}
+
+export interface RetryPolicy {
+  retries: number; // attempts after the first one
+  baseDelay: number; // ms, doubled after each attempt
+  maxDelay: number; // ms
+}
+
+// Timeouts, network errors, 429 and 5xx answers are worth another attempt
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  if (error.response === undefined) return true;
+  return error.response.status === 429 || error.response.status >= 500;
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  shouldRetry: (error: unknown) => boolean = isRetryableError,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= policy.retries || !shouldRetry(error)) throw error;
+      // Full jitter keeps concurrent callers from retrying in lockstep
+      const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.random() * delay),
+      );
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  name: string; // upstream name, used in errors
+  failureThreshold: number; // consecutive failures before opening
+  resetTimeout: number; // ms before a trial call is let through
+}
+
+export interface CircuitBreakerStats {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  rejected: number;
+}
+
+/*
+ * Fail fast while the upstream is down: after failureThreshold consecutive
+ * failures, calls are rejected for resetTimeout, then a single trial call
+ * decides whether the circuit closes again.
+ */
+export function createCircuitBreaker({
+  name,
+  failureThreshold,
+  resetTimeout,
+}: CircuitBreakerOptions) {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let rejected = 0;
+
+  async function call<T>(fn: () => Promise<T>): Promise<T> {
+    // Open, or half open with the trial call still in flight
+    const waiting =
+      state === "half_open" ||
+      (state === "open" && Date.now() - openedAt < resetTimeout);
+    if (waiting) {
+      rejected++;
+      throw new UpstreamUnavailableError(name);
+    }
+
+    const trial = state === "open";
+    if (trial) state = "half_open";
+    try {
+      const value = await fn();
+      state = "closed";
+      consecutiveFailures = 0;
+      return value;
+    } catch (error) {
+      consecutiveFailures++;
+      if (trial || consecutiveFailures >= failureThreshold) {
+        state = "open";
+        openedAt = Date.now();
+      }
+      throw error;
+    }
+  }
+
+  function stats(): CircuitBreakerStats {
+    return {
+      name,
+      state,
+      consecutiveFailures,
+      openedAt:
+        state !== "closed" ? new Date(openedAt).toISOString() : undefined,
+      rejected,
+    };
+  }
+
+  return { call, stats };
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import express from "express";
+
+// Google Fonts: the stylesheet and the font files it links to
+const STYLE_ORIGINS = ["https://fonts.googleapis.com"];
+const FONT_ORIGINS = ["https://fonts.gstatic.com"];
+
+// Served SVG images only need their own inline style, font and images
+export const SVG_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; font-src data:; img-src data:";
+
+function sourceHash(content: string): string {
+  return `'sha256-${crypto.createHash("sha256").update(content).digest("base64")}'`;
+}
+
+function origin(url: string): string {
+  return new URL(url).origin;
+}
+
+/*
+ * Content-Security-Policy allowing the inline scripts and styles of the pages
+ * by hash, and the external scripts they load with what those scripts call.
+ */
+export function contentSecurityPolicy({
+  pages,
+  imageUrls,
+  appUrl,
+}: {
+  pages: string[]; // HTML sources served
+  imageUrls: string[]; // external images shown, such as the messenger icons
+  appUrl: string; // the QR images are loaded from the public URL
+}): string {
+  const scriptSources = new Set<string>();
+  const styleSources = new Set<string>(STYLE_ORIGINS);
+  const externalScripts = new Set<string>();
+  for (const page of pages) {
+    for (const [, attributes, content] of page.matchAll(
+      /<script([^>]*)>([\s\S]*?)<\/script>/gi,
+    )) {
+      const src = /\ssrc="(https?:\/\/[^"]+)"/i.exec(attributes)?.[1];
+      if (src !== undefined) externalScripts.add(origin(src));
+      else if (content.trim() !== "") scriptSources.add(sourceHash(content));
+    }
+    for (const [, content] of page.matchAll(
+      /<style[^>]*>([\s\S]*?)<\/style>/gi,
+    ))
+      styleSources.add(sourceHash(content));
+  }
+
+  const appOrigin = origin(appUrl);
+  const directives: Record<string, string[]> = {
+    "default-src": ["'self'"],
+    "script-src": ["'self'", ...scriptSources, ...externalScripts],
+    "style-src": ["'self'", ...styleSources],
+    "font-src": ["'self'", ...FONT_ORIGINS],
+    "img-src": [
+      "'self'",
+      "data:",
+      appOrigin,
+      ...new Set(imageUrls.map(origin)),
+    ],
+    // Analytics scripts report to their own origin
+    "connect-src": ["'self'", appOrigin, ...externalScripts],
+    "object-src": ["'none'"],
+    "base-uri": ["'none'"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+  };
+  return Object.entries(directives)
+    .map(([name, sources]) => [name, ...new Set(sources)].join(" "))
+    .join("; ");
+}
+
+export function securityHeaders({
+  contentSecurityPolicy,
+  https,
+}: {
+  contentSecurityPolicy: string;
+  https: boolean;
+}): express.RequestHandler {
+  return (req, res, next) => {
+    res.set("Content-Security-Policy", contentSecurityPolicy);
+    res.set("X-Content-Type-Options", "nosniff");
+    res.set("X-Frame-Options", "DENY");
+    res.set("Referrer-Policy", "strict-origin-when-cross-origin");
+    res.set("Cross-Origin-Opener-Policy", "same-origin");
+    res.set(
+      "Permissions-Policy",
+      "camera=(), microphone=(), geolocation=(), interest-cohort=()",
+    );
+    if (https)
+      res.set(
+        "Strict-Transport-Security",
+        "max-age=31536000; includeSubDomains",
+      );
+    next();
+  };
+}
@@ -0,0 +1,248 @@
+import PDFDocument from "pdfkit";
+import { CAPTION_FONT_FAMILY, CAPTION_FONT_PATH } from "./frame.utils.ts";
+import { Message } from "./i18n.utils.ts";
+import {
+  CAPTION_SVG_DEFS,
+  captionSvg,
+  drawPdfCaption,
+} from "./render.utils.ts";
+
+export type SheetFormat = "pdf" | "svg";
+
+export const SHEET_FORMATS: SheetFormat[] = ["pdf", "svg"];
+
+// Lengths in millimetres
+export interface SheetLayout {
+  columns: number;
+  rows: number;
+  margin: number;
+  gap: number;
+  cropMarks: boolean;
+}
+
+export interface SheetCell {
+  followLabel: string;
+  image: Buffer; // QR code as rendered by generateQrWithLogo
+}
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  columns: 3,
+  rows: 4,
+  margin: 10,
+  gap: 4,
+  cropMarks: true,
+};
+
+const SHEET_LIMITS = {
+  columns: { min: 1, max: 8 },
+  rows: { min: 1, max: 12 },
+  margin: { min: 0, max: 40 },
+  gap: { min: 0, max: 20 },
+};
+
+const MM = 72 / 25.4; // points per millimetre
+const A4_WIDTH = 210 * MM;
+const A4_HEIGHT = 297 * MM;
+
+const CAPTION_RATIO = 0.22; // share of the cell height above the QR
+const CROP_MARK_OFFSET = 1 * MM; // distance between the marks and the cells
+const CROP_MARK_LENGTH = 5 * MM;
+const CROP_MARK_WIDTH = 0.25;
+
+export function isSheetFormat(value: string): value is SheetFormat {
+  return (SHEET_FORMATS as string[]).includes(value);
+}
+
+// Parse and validate the layout object of /qrcode/sheet
+export function parseSheetLayout(
+  rawLayout: unknown,
+): SheetLayout | { error: Message } {
+  if (rawLayout == undefined) return DEFAULT_SHEET_LAYOUT;
+  if (typeof rawLayout !== "object")
+    return { error: { key: "error.layout_not_object" } };
+  const { crop_marks, ...dimensions } = rawLayout as Record<string, unknown>;
+
+  const layout = { ...DEFAULT_SHEET_LAYOUT };
+  for (const [key, { min, max }] of Object.entries(SHEET_LIMITS)) {
+    const value = dimensions[key];
+    if (value == undefined) continue;
+    const integer = key === "columns" || key === "rows";
+    if (
+      typeof value !== "number" ||
+      (integer && !Number.isInteger(value)) ||
+      value < min ||
+      value > max
+    )
+      return {
+        error: {
+          key: integer
+            ? "error.layout_integer_bounds"
+            : "error.layout_number_bounds",
+          values: { PARAMETER: key, MIN: String(min), MAX: String(max) },
+        },
+      };
+    layout[key as keyof typeof SHEET_LIMITS] = value;
+  }
+
+  if (crop_marks != undefined) {
+    if (typeof crop_marks !== "boolean")
+      return {
+        error: {
+          key: "error.parameter_not_boolean",
+          values: { PARAMETER: "layout crop_marks" },
+        },
+      };
+    layout.cropMarks = crop_marks;
+  }
+
+  const { cellWidth, cellHeight } = sheetGrid(layout);
+  if (cellWidth <= 0 || cellHeight <= 0)
+    return { error: { key: "error.layout_no_room" } };
+
+  return layout;
+}
+
+export function sheetCapacity(layout: SheetLayout): number {
+  return layout.columns * layout.rows;
+}
+
+// Cell boxes of an A4 portrait page, in points
+function sheetGrid(layout: SheetLayout) {
+  const margin = layout.margin * MM;
+  const gap = layout.gap * MM;
+  const cellWidth =
+    (A4_WIDTH - 2 * margin - (layout.columns - 1) * gap) / layout.columns;
+  const cellHeight =
+    (A4_HEIGHT - 2 * margin - (layout.rows - 1) * gap) / layout.rows;
+
+  const cellLeft = (column: number) => margin + column * (cellWidth + gap);
+  const cellTop = (row: number) => margin + row * (cellHeight + gap);
+  return { margin, cellWidth, cellHeight, cellLeft, cellTop };
+}
+
+// Caption on top, QR below, both centered in the cell
+function cellLayout(layout: SheetLayout, index: number) {
+  const { cellWidth, cellHeight, cellLeft, cellTop } = sheetGrid(layout);
+  const position = index % sheetCapacity(layout);
+  const left = cellLeft(position % layout.columns);
+  const top = cellTop(Math.floor(position / layout.columns));
+
+  const captionHeight = cellHeight * CAPTION_RATIO;
+  const qrSize = Math.min(cellWidth, cellHeight - captionHeight);
+  return {
+    caption: {
+      left: left + cellWidth * 0.04,
+      top,
+      width: cellWidth * 0.92,
+      height: captionHeight,
+      fontSize: Math.floor(captionHeight / 2.4),
+      minFontSize: 4,
+      maxLines: 2,
+    },
+    qr: {
+      left: left + (cellWidth - qrSize) / 2,
+      top: top + captionHeight,
+      size: qrSize,
+    },
+  };
+}
+
+// Lines [x1, y1, x2, y2] in the page margins, facing every cell edge
+function cropMarks(layout: SheetLayout): [number, number, number, number][] {
+  const { margin, cellWidth, cellHeight, cellLeft, cellTop } =
+    sheetGrid(layout);
+  const length = Math.min(CROP_MARK_LENGTH, margin - CROP_MARK_OFFSET);
+  if (length <= 0) return [];
+
+  const start = margin - CROP_MARK_OFFSET - length;
+  const marks: [number, number, number, number][] = [];
+  for (let column = 0; column < layout.columns; column++) {
+    for (const x of [cellLeft(column), cellLeft(column) + cellWidth]) {
+      marks.push([x, start, x, start + length]);
+      marks.push([x, A4_HEIGHT - start - length, x, A4_HEIGHT - start]);
+    }
+  }
+  for (let row = 0; row < layout.rows; row++) {
+    for (const y of [cellTop(row), cellTop(row) + cellHeight]) {
+      marks.push([start, y, start + length, y]);
+      marks.push([A4_WIDTH - start - length, y, A4_WIDTH - start, y]);
+    }
+  }
+  return marks;
+}
+
+// One A4 page per layout.columns × layout.rows cells
+export async function buildSheetPdf(
+  cells: SheetCell[],
+  layout: SheetLayout,
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: [A4_WIDTH, A4_HEIGHT],
+    margin: 0,
+    autoFirstPage: false,
+  });
+  doc.registerFont(CAPTION_FONT_FAMILY, CAPTION_FONT_PATH);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => {
+      resolve(Buffer.concat(chunks));
+    });
+    doc.on("error", reject);
+  });
+
+  cells.forEach((cell, index) => {
+    if (index % sheetCapacity(layout) === 0) {
+      doc.addPage();
+      if (layout.cropMarks) {
+        for (const [x1, y1, x2, y2] of cropMarks(layout))
+          doc.moveTo(x1, y1).lineTo(x2, y2);
+        doc.lineWidth(CROP_MARK_WIDTH).stroke("#000000");
+      }
+    }
+
+    const { caption, qr } = cellLayout(layout, index);
+    doc.image(cell.image, qr.left, qr.top, { width: qr.size });
+    drawPdfCaption(doc, caption, cell.followLabel);
+  });
+
+  doc.end();
+  return await done;
+}
+
+// A single A4 page, sized in millimetres and drawn in points
+export function buildSheetSvg(cells: SheetCell[], layout: SheetLayout): string {
+  const n = (value: number) => String(Math.round(value * 100) / 100);
+
+  const marks = layout.cropMarks
+    ? cropMarks(layout)
+        .map(
+          ([x1, y1, x2, y2]) =>
+            `<line x1="${n(x1)}" y1="${n(y1)}" x2="${n(x2)}" y2="${n(y2)}" />`,
+        )
+        .join("")
+    : "";
+
+  const content = cells
+    .slice(0, sheetCapacity(layout))
+    .map((cell, index) => {
+      const { caption, qr } = cellLayout(layout, index);
+      const captionOverlay = captionSvg(
+        caption,
+        cell.followLabel,
+        1,
+        "",
+      ).replace("<svg ", `<svg x="${n(caption.left)}" y="${n(caption.top)}" `);
+      return `
+    <image href="data:image/png;base64,${cell.image.toString("base64")}"
+           x="${n(qr.left)}" y="${n(qr.top)}" width="${n(qr.size)}" height="${n(qr.size)}" />
+    ${captionOverlay}`;
+    })
+    .join("");
+
+  return `<svg width="210mm" height="297mm" viewBox="0 0 ${n(A4_WIDTH)} ${n(A4_HEIGHT)}" xmlns="http://www.w3.org/2000/svg">${CAPTION_SVG_DEFS}
+    <rect width="100%" height="100%" fill="#ffffff" />
+    <g stroke="#000000" stroke-width="${String(CROP_MARK_WIDTH)}">${marks}</g>${content}
+</svg>`;
+}
@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import path from "path";
+import type { EventData } from "./umami.ts";
+
+type Counts = Record<string, number>;
+
+// Aggregated counts only: nothing about the visitors, no dates but the first
+export interface Stats {
+  since: string; // ISO date of the first counted event
+  events: Counts; // event → count
+  sources: Record<string, Counts>; // src → event → count
+  clicks: Record<string, Counts>; // messenger → followType:target → count
+}
+
+export interface StatsCounter {
+  record(event: string, data?: EventData): void;
+  snapshot(): Stats;
+  flush(): Promise<void>; // saves pending counts to the file, if any
+}
+
+// Keys beyond the limit of a table are counted together
+export const OTHER_KEY = "(other)";
+
+const SAVE_DELAY = 5000; // ms
+
+// Without a prototype, keys such as __proto__ are only keys
+function lookupTable<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null) as Record<string, T>, entries);
+}
+
+function nestedTables(
+  tables: Record<string, Counts> = {},
+): Record<string, Counts> {
+  return lookupTable(
+    Object.fromEntries(
+      Object.entries(tables).map(([key, counts]) => [key, lookupTable(counts)]),
+    ),
+  );
+}
+
+function emptyStats(): Stats {
+  return {
+    since: new Date().toISOString(),
+    events: lookupTable(),
+    sources: lookupTable(),
+    clicks: lookupTable(),
+  };
+}
+
+async function readStats(file: string): Promise<Stats | undefined> {
+  try {
+    const stats = JSON.parse(await fs.readFile(file, "utf8")) as Stats;
+    return {
+      since: stats.since,
+      events: lookupTable(stats.events),
+      sources: nestedTables(stats.sources),
+      clicks: nestedTables(stats.clicks),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// Written aside then renamed, so that a crash never leaves half a file
+async function writeStats(file: string, stats: Stats): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(stats), "utf8");
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/*
+ * Event counters by name, by source and, for the messenger clicks, by target.
+ * Kept in memory, and with a file saved a few seconds after a change and read
+ * back at startup. Each table holds at most maxKeys keys, so that made up
+ * sources or targets cannot grow it without bound.
+ */
+export async function createStatsCounter({
+  file,
+  maxKeys = 1000,
+}: { file?: string; maxKeys?: number } = {}): Promise<StatsCounter> {
+  const stats =
+    (file !== undefined ? await readStats(file) : undefined) ?? emptyStats();
+  let saveTimer: NodeJS.Timeout | undefined;
+
+  const increment = (counts: Counts, key: string) => {
+    const counted =
+      Object.hasOwn(counts, key) || Object.keys(counts).length < maxKeys
+        ? key
+        : OTHER_KEY;
+    counts[counted] = (counts[counted] ?? 0) + 1;
+  };
+  const table = (tables: Record<string, Counts>, key: string): Counts => {
+    if (!Object.hasOwn(tables, key) && Object.keys(tables).length >= maxKeys)
+      key = OTHER_KEY;
+    return (tables[key] ??= lookupTable());
+  };
+
+  const save = async () => {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    if (file !== undefined) await writeStats(file, stats);
+  };
+
+  return {
+    record(event, data = {}) {
+      increment(stats.events, event);
+      if (data.source !== undefined)
+        increment(table(stats.sources, data.source), event);
+      if (data.messenger !== undefined && data.target !== undefined)
+        increment(
+          table(stats.clicks, data.messenger),
+          `${data.followType ?? "unknown"}:${data.target}`,
+        );
+
+      if (file === undefined || saveTimer !== undefined) return;
+      saveTimer = setTimeout(() => {
+        save().catch((error: unknown) => {
+          console.log(error);
+        });
+      }, SAVE_DELAY);
+      // Counts of the last seconds are lost rather than delaying shutdown
+      saveTimer.unref();
+    },
+    snapshot: () => structuredClone(stats),
+    flush: save,
+  };
+}
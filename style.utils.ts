@@ -0,0 +1,191 @@
+import { Message } from "./i18n.utils.ts";
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+export type ModuleStyle = "square" | "rounded" | "dots";
+
+export interface QrStyle {
+  dark?: string;
+  light?: string;
+  margin?: number; // quiet zone, in modules
+  logo?: boolean;
+  logoScale?: number; // logo width / QR width
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  moduleStyle?: ModuleStyle;
+}
+
+const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+const MODULE_STYLES: ModuleStyle[] = ["square", "rounded", "dots"];
+
+const HEX_COLOUR_REGEX = /^#[0-9a-f]{6}$/i;
+
+// WCAG ratio, scanners struggle below this
+const MIN_CONTRAST_RATIO = 4.5;
+
+const MIN_MARGIN = 0;
+const MAX_MARGIN = 10;
+const MIN_LOGO_SCALE = 0.1;
+
+// Largest logo each level can recover from, the logo hides these modules
+const MAX_LOGO_SCALE: Record<ErrorCorrectionLevel, number> = {
+  L: 0,
+  M: 0,
+  Q: 0.3,
+  H: 0.45,
+};
+
+// Partner presets, explicit parameters override them
+export const QR_STYLE_PRESETS: Record<string, QrStyle> = {
+  joel: { dark: "#1e3a8a", light: "#ffffff" },
+  tchap: { dark: "#000091", light: "#ffffff" }, // bleu France
+  monochrome: { dark: "#000000", light: "#ffffff", logo: false }, // laser printers
+};
+
+// Parse and validate the styling parameters of /qrcode
+export function parseQrStyle(
+  query: Record<string, unknown>,
+): QrStyle | { error: Message } {
+  const style: QrStyle = {};
+
+  if (query.preset != undefined) {
+    if (
+      typeof query.preset !== "string" ||
+      !Object.hasOwn(QR_STYLE_PRESETS, query.preset)
+    )
+      return {
+        error: {
+          key: "error.preset_values",
+          values: { VALUES: Object.keys(QR_STYLE_PRESETS).join(", ") },
+        },
+      };
+    Object.assign(style, QR_STYLE_PRESETS[query.preset]);
+  }
+
+  for (const key of ["dark", "light"] as const) {
+    const colour = query[key];
+    if (colour == undefined) continue;
+    if (typeof colour !== "string" || !HEX_COLOUR_REGEX.test(colour))
+      return {
+        error: { key: "error.colour_format", values: { PARAMETER: key } },
+      };
+    style[key] = colour.toLowerCase();
+  }
+
+  if (query.margin != undefined) {
+    const margin = Number(query.margin);
+    if (!Number.isInteger(margin) || margin < MIN_MARGIN || margin > MAX_MARGIN)
+      return {
+        error: {
+          key: "error.margin_bounds",
+          values: { MIN: String(MIN_MARGIN), MAX: String(MAX_MARGIN) },
+        },
+      };
+    style.margin = margin;
+  }
+
+  if (query.logo != undefined) {
+    if (query.logo !== "true" && query.logo !== "false")
+      return {
+        error: {
+          key: "error.parameter_not_boolean",
+          values: { PARAMETER: "logo" },
+        },
+      };
+    style.logo = query.logo === "true";
+  }
+
+  if (query.ecl != undefined) {
+    const level = typeof query.ecl === "string" ? query.ecl.toUpperCase() : "";
+    if (!(ERROR_CORRECTION_LEVELS as string[]).includes(level))
+      return {
+        error: {
+          key: "error.ecl_values",
+          values: { VALUES: ERROR_CORRECTION_LEVELS.join(", ") },
+        },
+      };
+    style.errorCorrectionLevel = level as ErrorCorrectionLevel;
+  }
+
+  if (query.style != undefined) {
+    if (!(MODULE_STYLES as unknown[]).includes(query.style))
+      return {
+        error: {
+          key: "error.style_values",
+          values: { VALUES: MODULE_STYLES.join(", ") },
+        },
+      };
+    style.moduleStyle = query.style as ModuleStyle;
+  }
+
+  const level = style.errorCorrectionLevel ?? "H";
+  if (query.logo_scale != undefined) {
+    const logoScale = Number(query.logo_scale);
+    if (
+      isNaN(logoScale) ||
+      logoScale < MIN_LOGO_SCALE ||
+      logoScale > MAX_LOGO_SCALE.H
+    )
+      return {
+        error: {
+          key: "error.logo_scale_bounds",
+          values: {
+            MIN: String(MIN_LOGO_SCALE),
+            MAX: String(MAX_LOGO_SCALE.H),
+          },
+        },
+      };
+    style.logoScale = logoScale;
+  }
+  if (style.logo !== false) {
+    const maxLogoScale = MAX_LOGO_SCALE[level];
+    // Only a logo asked for is an error, the default one adapts to the level
+    const logoRequested =
+      query.logo === "true" || query.logo_scale != undefined;
+    if (maxLogoScale === 0) {
+      if (logoRequested)
+        return {
+          error: {
+            key: "error.ecl_too_low_for_logo",
+            values: { LEVEL: level },
+          },
+        };
+      style.logo = false;
+    } else if (style.logoScale === undefined) {
+      if (maxLogoScale < MAX_LOGO_SCALE.H) style.logoScale = maxLogoScale;
+    } else if (style.logoScale > maxLogoScale)
+      return {
+        error: {
+          key: "error.logo_scale_max",
+          values: { MAX: String(maxLogoScale), LEVEL: level },
+        },
+      };
+  }
+
+  const ratio = contrastRatio(
+    style.dark ?? "#000000",
+    style.light ?? "#ffffff",
+  );
+  if (ratio < MIN_CONTRAST_RATIO)
+    return {
+      error: {
+        key: "error.contrast",
+        values: { MIN: String(MIN_CONTRAST_RATIO), RATIO: ratio.toFixed(2) },
+      },
+    };
+
+  return style;
+}
+
+// WCAG contrast ratio of dark over light, below 1 when the colours are inverted
+export function contrastRatio(dark: string, light: string): number {
+  return (relativeLuminance(light) + 0.05) / (relativeLuminance(dark) + 0.05);
+}
+
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+    return channel <= 0.03928
+      ? channel / 12.92
+      : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
@@ -0,0 +1,140 @@
+// Markup that is inserted as is: rendered templates, never user input
+export interface SafeHtml {
+  readonly html: string;
+}
+
+export function trustedHtml(html: string): SafeHtml {
+  return { html };
+}
+
+function isSafeHtml(value: unknown): value is SafeHtml {
+  return typeof value === "object" && value !== null && "html" in value;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Relative URLs and these schemes only: no javascript: or data: links
+const SAFE_URL_SCHEMES = ["http", "https", "mailto", "tel"];
+
+export function sanitizeUrl(url: string): string {
+  const scheme = /^\s*([a-z][a-z0-9+.-]*):/i.exec(url)?.[1];
+  return scheme === undefined || SAFE_URL_SCHEMES.includes(scheme.toLowerCase())
+    ? url
+    : "#";
+}
+
+// Attributes whose value is followed as a link
+const URL_ATTRIBUTES = ["href", "src", "action", "formaction", "poster"];
+
+type PlaceholderContext = "text" | "attribute" | "url";
+
+type Segment = string | { name: string; context: PlaceholderContext };
+
+const PLACEHOLDER_REGEX = /\{([A-Z][A-Z0-9_]*)\}/g;
+
+export class TemplateError extends Error {
+  constructor(template: string, message: string) {
+    super(`Template ${template}: ${message}`);
+    this.name = "TemplateError";
+  }
+}
+
+// Where a placeholder stands: element text, a quoted attribute value, or a URL
+function placeholderContext(
+  template: string,
+  source: string,
+  index: number,
+  name: string,
+): PlaceholderContext {
+  const before = source.slice(0, index).toLowerCase();
+  for (const element of ["script", "style"])
+    if (before.lastIndexOf(`<${element}`) > before.lastIndexOf(`</${element}`))
+      throw new TemplateError(
+        template,
+        `{${name}} cannot be used inside a <${element}> element.`,
+      );
+
+  const tagStart = before.lastIndexOf("<");
+  if (tagStart <= before.lastIndexOf(">")) return "text";
+
+  const attribute = /([\w:-]+)\s*=\s*(["'])([^"']*)$/.exec(
+    before.slice(tagStart),
+  );
+  if (attribute === null)
+    throw new TemplateError(
+      template,
+      `{${name}} must be inside a quoted attribute value.`,
+    );
+  const [, attributeName, , valueBefore] = attribute;
+  return URL_ATTRIBUTES.includes(attributeName) && valueBefore === ""
+    ? "url"
+    : "attribute";
+}
+
+/*
+ * Parse an HTML template once, at startup: each {PLACEHOLDER} must be one of
+ * the expected names and each expected name must appear. Rendering replaces
+ * every occurrence, escaped for its context; SafeHtml values are only
+ * accepted in element text.
+ */
+export function compileTemplate<Name extends string>(
+  template: string,
+  source: string,
+  placeholders: readonly Name[],
+): (values: Record<Name, string | SafeHtml>) => SafeHtml {
+  const segments: Segment[] = [];
+  const found = new Set<string>();
+  let last = 0;
+  for (const match of source.matchAll(PLACEHOLDER_REGEX)) {
+    const name = match[1];
+    if (!(placeholders as readonly string[]).includes(name))
+      throw new TemplateError(template, `unexpected placeholder {${name}}.`);
+    found.add(name);
+    segments.push(source.slice(last, match.index), {
+      name,
+      context: placeholderContext(template, source, match.index, name),
+    });
+    last = match.index + match[0].length;
+  }
+  segments.push(source.slice(last));
+
+  const missing = placeholders.filter((name) => !found.has(name));
+  if (missing.length > 0)
+    throw new TemplateError(
+      template,
+      `missing placeholders ${missing.map((name) => `{${name}}`).join(", ")}.`,
+    );
+
+  return (values) =>
+    trustedHtml(
+      segments
+        .map((segment) => {
+          if (typeof segment === "string") return segment;
+          const value = values[segment.name as Name];
+          if (isSafeHtml(value)) {
+            if (segment.context !== "text")
+              throw new TemplateError(
+                template,
+                `{${segment.name}} is an attribute, it takes text only.`,
+              );
+            return value.html;
+          }
+          return escapeHtml(
+            segment.context === "url" ? sanitizeUrl(value) : value,
+          );
+        })
+        .join(""),
+    );
+}
+
+// Rendered fragments, joined into one
+export function joinHtml(fragments: SafeHtml[], separator = "\n"): SafeHtml {
+  return trustedHtml(fragments.map(({ html }) => html).join(separator));
+}
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import JSZip from "jszip";
+import {
+  decodeQrCode,
+  JEAN_DUPONT_FIXTURES,
+  startTestApp,
+  TestApp,
+} from "./testApp.ts";
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp(
+    {
+      ...JEAN_DUPONT_FIXTURES,
+      people: {
+        ...JEAN_DUPONT_FIXTURES.people,
+        "Personne Inconnue": { json: [] },
+      },
+    },
+    // More batches than the default budget of a client
+    { RATE_LIMIT_BATCH_PER_IP: "100", RATE_LIMIT_BATCH_GLOBAL: "100" },
+  );
+});
+
+after(() => testApp.close());
+
+function zipEntry(zip: JSZip, name: string): JSZip.JSZipObject {
+  const entry = zip.file(name);
+  assert.ok(entry !== null, `${name} is missing from the archive`);
+  return entry;
+}
+
+describe("/qrcode/batch", () => {
+  it("zips a framed QR code per target with a manifest", async () => {
+    const res = await testApp.post("/qrcode/batch", {
+      targets: [
+        { name: "Jean Dupont" },
+        { name: "Personne Inconnue" },
+        { colour: "bleu" },
+      ],
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "application/zip");
+    assert.match(
+      res.headers.get("content-disposition") ?? "",
+      /joel-qrcodes\.zip/,
+    );
+
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const manifest = JSON.parse(
+      await zipEntry(zip, "manifest.json").async("string"),
+    ) as { status: string; file: string; qr_url: string; error: string }[];
+    assert.deepEqual(
+      manifest.map(({ status }) => status),
+      ["ok", "failed", "failed"],
+    );
+    assert.equal(manifest[0].file, "001-jean-dupont.png");
+    assert.equal(
+      manifest[0].qr_url,
+      encodeURI(`${testApp.APP_URL}?name=Jean Dupont`),
+    );
+    assert.ok(manifest.slice(1).every(({ error }) => error !== ""));
+    zipEntry(zip, "manifest.csv");
+
+    const image = await zipEntry(zip, manifest[0].file).async("nodebuffer");
+    assert.equal(await decodeQrCode(image), manifest[0].qr_url);
+  });
+
+  it("rejects a request without targets", async () => {
+    for (const body of [{}, { targets: [] }, { targets: "Jean Dupont" }]) {
+      const res = await testApp.post("/qrcode/batch", body);
+      assert.equal(res.status, 400);
+    }
+  });
+});
+
+describe("/qrcode/sheet", () => {
+  const jeanDupont = (count: number) =>
+    Array.from({ length: count }, () => ({ name: "Jean Dupont" }));
+
+  it("prints one A4 page per grid", async () => {
+    const res = await testApp.post("/qrcode/sheet", {
+      targets: jeanDupont(13),
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "application/pdf");
+    const pdf = Buffer.from(await res.arrayBuffer()).toString("latin1");
+    assert.equal(pdf.match(/\/Type \/Page\b(?!s)/g)?.length, 2);
+  });
+
+  it("lays out a single svg page", async () => {
+    const res = await testApp.post("/qrcode/sheet", {
+      targets: jeanDupont(2),
+      layout: { columns: 2, rows: 1, crop_marks: false },
+      format: "svg",
+    });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type") ?? "", /^image\/svg\+xml/);
+    const svg = await res.text();
+    assert.match(svg, /^<svg width="210mm" height="297mm"/);
+    assert.equal(svg.match(/<image /g)?.length, 2);
+    assert.doesNotMatch(svg, /<line /);
+  });
+
+  it("rejects layouts and targets that cannot be printed", async () => {
+    for (const body of [
+      {
+        targets: jeanDupont(3),
+        layout: { columns: 2, rows: 1 },
+        format: "svg",
+      },
+      { targets: jeanDupont(1), layout: { columns: 9 } },
+      { targets: jeanDupont(1), layout: { margin: 40, gap: 20, rows: 12 } },
+      { targets: jeanDupont(1), format: "png" },
+    ]) {
+      const res = await testApp.post("/qrcode/sheet", body);
+      assert.equal(res.status, 400, JSON.stringify(body));
+    }
+  });
+
+  it("prints nothing until every target is verified", async () => {
+    const res = await testApp.post("/qrcode/sheet", {
+      targets: [{ name: "Jean Dupont" }, { name: "Personne Inconnue" }],
+    });
+    assert.equal(res.status, 400);
+    const body = (await res.json()) as { targets: { index: number }[] };
+    assert.deepEqual(
+      body.targets.map(({ index }) => index),
+      [1],
+    );
+  });
+});
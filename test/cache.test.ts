@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  createCache,
+  createFileStore,
+  createMemoryStore,
+} from "../cache.utils.ts";
+
+const POLICY = { ttl: 60_000, negativeTtl: 1000, staleTtl: 60_000 };
+
+const isEmpty = (value: string[]) => value.length === 0;
+
+describe("cache", () => {
+  it("calls the loader once for concurrent callers", async () => {
+    const cache = createCache(createMemoryStore());
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return ["Jean Dupont"];
+    };
+    const values = await Promise.all(
+      [1, 2, 3].map(() => cache.wrap("people", "a", POLICY, isEmpty, loader)),
+    );
+    assert.deepEqual(values, [
+      ["Jean Dupont"],
+      ["Jean Dupont"],
+      ["Jean Dupont"],
+    ]);
+    assert.equal(calls, 1);
+    await cache.wrap("people", "a", POLICY, isEmpty, loader);
+    assert.equal(calls, 1);
+
+    const { hits, misses, coalesced } = cache.stats().namespaces.people;
+    assert.deepEqual([hits, misses, coalesced], [1, 1, 2]);
+  });
+
+  it("keeps empty results for the negative TTL only", async () => {
+    const cache = createCache(createMemoryStore());
+    let calls = 0;
+    const loader = () => {
+      calls++;
+      return Promise.resolve([]);
+    };
+    await cache.wrap(
+      "people",
+      "a",
+      { ...POLICY, negativeTtl: 0 },
+      isEmpty,
+      loader,
+    );
+    await cache.wrap("people", "a", POLICY, isEmpty, loader);
+    assert.equal(calls, 2);
+    await cache.wrap("people", "a", POLICY, isEmpty, loader);
+    assert.equal(calls, 2);
+  });
+
+  it("serves an expired value when the loader fails", async () => {
+    const cache = createCache(createMemoryStore());
+    await cache.wrap("people", "a", { ...POLICY, ttl: 0 }, isEmpty, () =>
+      Promise.resolve(["Jean Dupont"]),
+    );
+    const failing = () => Promise.reject(new Error("JORFSearch is down"));
+    assert.deepEqual(
+      await cache.wrap("people", "a", POLICY, isEmpty, failing),
+      ["Jean Dupont"],
+    );
+    assert.equal(cache.stats().stale, 1);
+    await assert.rejects(
+      cache.wrap("people", "b", POLICY, isEmpty, failing),
+      /JORFSearch is down/,
+    );
+  });
+});
+
+describe("memory store", () => {
+  it("evicts the least recently used entries beyond the byte limit", async () => {
+    const store = createMemoryStore(10, {
+      maxBytes: 10,
+      sizeOf: (value) => (value as string).length,
+    });
+    const expiresAt = Date.now() + 60_000;
+    await store.set("a", { value: "aaaa", expiresAt });
+    await store.set("b", { value: "bbbb", expiresAt });
+    await store.get("a");
+    await store.set("c", { value: "cccc", expiresAt });
+    await store.set("large", { value: "x".repeat(11), expiresAt });
+
+    assert.equal(await store.get("b"), undefined);
+    assert.equal(await store.get("large"), undefined);
+    for (const key of ["a", "c"])
+      assert.notEqual(await store.get(key), undefined);
+  });
+});
+
+describe("file store", () => {
+  it("removes ended entries, then those ending first beyond the limit", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "qr-cache-"));
+    try {
+      const now = Date.now();
+      const store = createFileStore(directory, 2);
+      await store.set("ended", { value: [], expiresAt: now - 1000 });
+      await store.set("stale", {
+        value: [1],
+        expiresAt: now - 1000,
+        staleUntil: now + 60_000,
+      });
+      await store.set("first", { value: [2], expiresAt: now + 30_000 });
+      await store.set("last", { value: [3], expiresAt: now + 90_000 });
+      await store.set("next", { value: [4], expiresAt: now + 120_000 });
+      // The sweep in progress may have started before the last write
+      await store.sweep();
+      await store.sweep();
+
+      assert.equal((await fs.readdir(directory)).length, 2);
+      for (const key of ["ended", "stale", "first"])
+        assert.equal(await store.get(key), undefined);
+      for (const key of ["last", "next"])
+        assert.notEqual(await store.get(key), undefined);
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+
+  it("leaves a file that does not parse yet to its writer", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "qr-cache-"));
+    try {
+      const store = createFileStore(directory);
+      const writing = path.join(directory, "writing.json");
+      await fs.writeFile(writing, '{"value":');
+      const stale = path.join(directory, "stale.json");
+      await fs.writeFile(stale, '{"value":');
+      const longAgo = new Date(Date.now() - 10 * 60 * 1000);
+      await fs.utimes(stale, longAgo, longAgo);
+
+      await store.sweep();
+      assert.deepEqual(await fs.readdir(directory), ["writing.json"]);
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+});
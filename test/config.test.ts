@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { before, describe, it } from "node:test";
+import type { ConfigError, loadConfig as LoadConfig } from "../config.ts";
+
+let loadConfig: typeof LoadConfig;
+
+const VALID_ENV = {
+  NODE_ENV: "production",
+  TELEGRAM_BOT_NAME: "joel_test_bot",
+  UMAMI_HOST: "umami.test",
+  UMAMI_ID: "test",
+};
+
+before(async () => {
+  // The module loads the process configuration when imported
+  Object.assign(process.env, VALID_ENV);
+  ({ loadConfig } = await import("../config.ts"));
+});
+
+function problemsOf(env: Record<string, string>): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    return (error as ConfigError).problems;
+  }
+  return [];
+}
+
+describe("configuration", () => {
+  it("derives the public URLs of a white-labelled instance", () => {
+    const config = loadConfig({
+      ...VALID_ENV,
+      PORT: "4000",
+      APP_DOMAIN: "qr.example.org",
+      HOME_WEBSITE_URL: "https://example.org/",
+    });
+    assert.equal(config.port, 4000);
+    assert.equal(config.appUrl, "https://qr.example.org");
+    assert.equal(config.homeWebsiteUrl, "https://example.org");
+    assert.equal(config.umami?.url, "https://umami.test");
+  });
+
+  it("defaults to localhost in development, without Umami", () => {
+    const config = loadConfig({
+      NODE_ENV: "development",
+      TELEGRAM_BOT_NAME: "joel_test_bot",
+    });
+    assert.equal(config.appUrl, "http://localhost:8080");
+    assert.equal(config.umami, undefined);
+  });
+
+  it("reads the deprecated WhatsApp variable", () => {
+    const config = loadConfig({
+      ...VALID_ENV,
+      TELEGRAM_BOT_NAME: "",
+      WHATSAPP_PHONE_NUMBER: "33612345678",
+    });
+    assert.deepEqual(
+      config.messengers.map(({ id }) => id),
+      ["whatsapp"],
+    );
+  });
+
+  it("enables the local stats with a file", () => {
+    assert.equal(loadConfig(VALID_ENV).stats, undefined);
+    assert.deepEqual(
+      loadConfig({ ...VALID_ENV, STATS_ENABLED: "true" }).stats,
+      {
+        file: undefined,
+      },
+    );
+    assert.equal(
+      loadConfig({ ...VALID_ENV, STATS_FILE: "stats.json" }).stats?.file,
+      path.resolve("stats.json"),
+    );
+    assert.ok(
+      problemsOf({ ...VALID_ENV, STATS_ENABLED: "yes" }).some((problem) =>
+        problem.includes("STATS_ENABLED"),
+      ),
+    );
+  });
+
+  it("needs no Umami with the local stats", () => {
+    const env = { NODE_ENV: "production", TELEGRAM_BOT_NAME: "joel_test_bot" };
+    const config = loadConfig({ ...env, STATS_ENABLED: "true" });
+    assert.equal(config.umami, undefined);
+    assert.deepEqual(problemsOf({ ...env, STATS_FILE: "stats.json" }), []);
+    assert.deepEqual(
+      problemsOf({ ...env, STATS_ENABLED: "true", UMAMI_HOST: "umami.test" }),
+      ["UMAMI_HOST and UMAMI_ID must be set together."],
+    );
+  });
+
+  it("trusts a number of proxies, or their addresses", () => {
+    for (const [trustProxy, expected] of [
+      ["2", 2],
+      ["loopback, 10.0.0.1", "loopback, 10.0.0.1"],
+      ["172.16.0.0/12,fd00::/8", "172.16.0.0/12,fd00::/8"],
+    ] as const)
+      assert.equal(
+        loadConfig({ ...VALID_ENV, TRUST_PROXY: trustProxy }).limits.trustProxy,
+        expected,
+      );
+
+    for (const trustProxy of ["true", "10.0.0.0/33", "loopback,"])
+      assert.match(
+        problemsOf({ ...VALID_ENV, TRUST_PROXY: trustProxy }).join(),
+        /^TRUST_PROXY must be/,
+      );
+  });
+
+  it("reports every invalid setting at once", () => {
+    const problems = problemsOf({
+      NODE_ENV: "production",
+      PORT: "http",
+      APP_URL: "links.example.org",
+      RATE_LIMIT_PER_IP: "-1",
+      LOGO_PATH: "missing.png",
+    });
+    assert.equal(problems.length, 6);
+    for (const name of [
+      "PORT",
+      "APP_URL",
+      "messenger",
+      "UMAMI_HOST",
+      "RATE_LIMIT_PER_IP",
+      "LOGO_PATH",
+    ])
+      assert.ok(
+        problems.some((problem) => problem.includes(name)),
+        `No problem reported for ${name}`,
+      );
+  });
+});
@@ -0,0 +1,104 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+// Reply of the stand-in: a JSON body, a raw text body, a redirect, an error status or none
+export type FakeReply =
+  | { json: unknown }
+  | { text: string }
+  | { redirect: string }
+  | { status: number }
+  | { hang: true };
+
+export interface FakeUpstreamFixtures {
+  people: Record<string, FakeReply>; // by name, as in /name/<name>?format=JSON
+  tags: Record<string, FakeReply>; // by tag, or tag="value"
+  organisations: Record<string, { name: string; id: string }[]>; // by WikidataId
+}
+
+export interface FakeUpstream {
+  url: string;
+  requests: string[]; // decoded path and query of every JORFSearch request
+  umamiEvents: string[];
+  umamiEventData: Record<string, unknown>[]; // data of each Umami event, in the same order
+  close: () => Promise<void>;
+}
+
+/*
+ * Local stand-in for JORFSearch (including its Wikidata name lookup) and
+ * Umami, serving the fixtures on a random port.
+ */
+export async function startFakeUpstream(
+  fixtures: FakeUpstreamFixtures,
+): Promise<FakeUpstream> {
+  const requests: string[] = [];
+  const umamiEvents: string[] = [];
+  const umamiEventData: Record<string, unknown>[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const pathname = decodeURIComponent(url.pathname);
+
+    if (req.method === "POST" && pathname === "/api/send") {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        const event = JSON.parse(body) as {
+          payload: { name: string; data: Record<string, unknown> };
+        };
+        umamiEvents.push(event.payload.name);
+        umamiEventData.push(event.payload.data);
+        res.writeHead(200).end();
+      });
+      return;
+    }
+
+    requests.push(pathname + decodeURIComponent(url.search));
+
+    let reply: FakeReply | undefined;
+    if (pathname.startsWith("/name/")) {
+      // Without format=JSON, JORFSearch answers with its HTML page
+      reply =
+        url.searchParams.get("format") === "JSON"
+          ? fixtures.people[pathname.slice("/name/".length)]
+          : { text: "<html>JORFSearch</html>" };
+    } else if (pathname.startsWith("/tag/")) {
+      reply = fixtures.tags[pathname.slice("/tag/".length)];
+    } else if (pathname === "/wikidata_id_to_name") {
+      reply = {
+        json: url.searchParams
+          .getAll("ids[]")
+          .flatMap((id) => fixtures.organisations[id] ?? []),
+      };
+    }
+
+    reply ??= { json: [] };
+    if ("hang" in reply) return;
+    if ("status" in reply) res.writeHead(reply.status).end();
+    else if ("redirect" in reply)
+      res.writeHead(302, { Location: encodeURI(reply.redirect) }).end();
+    else if ("text" in reply)
+      res.writeHead(200, { "Content-Type": "text/html" }).end(reply.text);
+    else
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify(reply.json));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${String(port)}`,
+    requests,
+    umamiEvents,
+    umamiEventData,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+        server.closeAllConnections();
+      }),
+  };
+}
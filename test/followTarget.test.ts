@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type * as FollowTargetModule from "../followTarget.ts";
+
+let followTarget: typeof FollowTargetModule;
+
+before(async () => {
+  // The module loads the process configuration when imported
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    TELEGRAM_BOT_NAME: "joel_test_bot",
+    UMAMI_HOST: "umami.test",
+    UMAMI_ID: "test",
+  });
+  followTarget = await import("../followTarget.ts");
+});
+
+function errorCode(query: Record<string, unknown>): string | undefined {
+  const parsed = followTarget.parseFollowQuery(query);
+  return parsed !== undefined && followTarget.isFollowError(parsed)
+    ? parsed.code
+    : undefined;
+}
+
+describe("parseFollowQuery", () => {
+  it("reads the canonical form of each target", () => {
+    const { parseFollowQuery } = followTarget;
+    assert.equal(parseFollowQuery({ lang: "en" }), undefined);
+    assert.deepEqual(parseFollowQuery({ name: " Jean   Dupont " }), {
+      followType: "people",
+      followArg: "Jean Dupont",
+      identity: undefined,
+      verify: true,
+      source: undefined,
+    });
+    assert.deepEqual(
+      parseFollowQuery({ organisation_id: "q42", src: "affiche" }),
+      {
+        followType: "organisation",
+        followArg: "Q42",
+        verify: true,
+        source: "affiche",
+      },
+    );
+    assert.deepEqual(
+      parseFollowQuery({
+        function_tag: "Sous-Préfet",
+        function_tag_value: " Finistère ",
+        verify: "0",
+      }),
+      {
+        followType: "function_tag",
+        followArg: "sous_prefet",
+        tagValue: "Finistère",
+        verify: false,
+        source: undefined,
+      },
+    );
+  });
+
+  it("rejects what no route could follow", () => {
+    for (const [query, code] of [
+      [{ name: "Jean Dupont", function_tag: "prefet" }, "exclusive_parameters"],
+      [{ name: ["Jean Dupont", "Marie Curie"] }, "invalid_parameter"],
+      [{ name: "Dupont" }, "invalid_parameter"],
+      [{ name: "Jean Dupont".repeat(20) + " x" }, "invalid_parameter"],
+      [{ name: "Jean Dupont", verify: "peut-être" }, "invalid_parameter"],
+      [
+        { name: "Jean Dupont", function_tag_value: "Bretagne" },
+        "invalid_parameter",
+      ],
+      [
+        { function_tag: "prefet", function_tag_value: " " },
+        "invalid_parameter",
+      ],
+      [{ organisation_id: "Conseil d'État" }, "invalid_parameter"],
+      [{ organisation_id: "Q42", verify: "false" }, "verification_required"],
+      [{ function_tag: "préfet !" }, "unknown_function_tag"],
+    ] as const)
+      assert.equal(errorCode(query), code, JSON.stringify(query));
+  });
+
+  it("leaves the tags missing from the catalogue to JORFSearch", () => {
+    assert.deepEqual(
+      followTarget.parseFollowQuery({ function_tag: "Cabinet" }),
+      {
+        followType: "function_tag",
+        followArg: "cabinet",
+        tagValue: undefined,
+        verify: true,
+        source: undefined,
+      },
+    );
+  });
+
+  it("suggests the closest function tags for a malformed tag", () => {
+    const parsed = followTarget.parseFollowQuery({ function_tag: "préfet !" });
+    assert.ok(parsed !== undefined && followTarget.isFollowError(parsed));
+    assert.equal(parsed.status, 400);
+    assert.equal(parsed.suggestions?.[0], "prefet");
+  });
+});
+
+describe("followParams", () => {
+  it("encodes each value of the query string", () => {
+    assert.equal(
+      followTarget.followParams("people", "Jean Dupont", {
+        identity: "Jean Dupont",
+      }),
+      "name=Jean%20Dupont&identity=Jean%20Dupont",
+    );
+    assert.equal(
+      followTarget.followParams("function_tag", "prefet", {
+        tagValue: "Europe & Affaires",
+      }),
+      "function_tag=prefet&function_tag_value=Europe%20%26%20Affaires",
+    );
+  });
+});
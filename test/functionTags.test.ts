@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  functionTagLabel,
+  isFunctionTag,
+  normalizeFunctionTag,
+  searchFunctionTags,
+  suggestFunctionTags,
+} from "../functionTags.ts";
+
+describe("function tags", () => {
+  it("normalizes the way a tag is written", () => {
+    assert.equal(normalizeFunctionTag(" Sous-Préfet "), "sous_prefet");
+    assert.equal(normalizeFunctionTag("Consul Général"), "consul_general");
+    assert.ok(isFunctionTag("prefet"));
+    assert.ok(!isFunctionTag("toString"));
+  });
+
+  it("labels a tag in each form", () => {
+    assert.equal(functionTagLabel("prefet"), "Préfets");
+    assert.equal(functionTagLabel("prefet", "feminine"), "Préfète");
+    assert.equal(functionTagLabel("recteur", "masculine"), "Recteur");
+    assert.equal(functionTagLabel("inconnu"), "inconnu");
+    assert.equal(
+      functionTagLabel("ambassadeur", "plural", "Italie"),
+      "Ambassadeurs (Italie)",
+    );
+  });
+
+  it("searches the tags by key and label", () => {
+    assert.deepEqual(searchFunctionTags("ambassadrice"), ["ambassadeur"]);
+    assert.ok(searchFunctionTags("prefet").includes("sous_prefet"));
+    assert.deepEqual(searchFunctionTags(" "), []);
+  });
+
+  it("suggests the closest tags for a typo", () => {
+    assert.equal(suggestFunctionTags("prefe")[0], "prefet");
+    assert.equal(suggestFunctionTags("recteru")[0], "recteur");
+    assert.deepEqual(suggestFunctionTags("boulanger"), []);
+  });
+});
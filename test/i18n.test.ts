@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fr from "../locales/fr.json" with { type: "json" };
+import en from "../locales/en.json" with { type: "json" };
+import { translate } from "../i18n.utils.ts";
+
+const CATALOGUES: Record<string, Record<string, string>> = { fr, en };
+
+function placeholders(message: string): string[] {
+  return [...message.matchAll(/\{([A-Z][A-Z0-9_]*)\}/g)]
+    .map(([, name]) => name)
+    .sort();
+}
+
+describe("catalogues", () => {
+  for (const [locale, catalogue] of Object.entries(CATALOGUES))
+    it(`${locale} has the messages and placeholders of fr`, () => {
+      assert.deepEqual(Object.keys(catalogue).sort(), Object.keys(fr).sort());
+      for (const [key, message] of Object.entries(fr))
+        assert.deepEqual(
+          placeholders(catalogue[key]),
+          placeholders(message),
+          key,
+        );
+    });
+});
+
+describe("translate", () => {
+  it("fills the placeholders", () => {
+    assert.equal(
+      translate("en", "page.title_with_name", { NAME: "Jean {NAME}" }),
+      "Follow Jean {NAME} on JOEL - Journal Electronique",
+    );
+  });
+
+  it("leaves a placeholder without value", () => {
+    assert.equal(
+      translate("fr", "messenger.copy_and_open"),
+      "Copier et ouvrir {MESSENGER}",
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { startTestApp, TestApp } from "./testApp.ts";
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp(
+    {
+      people: {},
+      tags: {},
+      organisations: {},
+    },
+    {
+      RATE_LIMIT_PER_IP: "3",
+      RATE_LIMIT_GLOBAL: "5",
+      RATE_LIMIT_OG_IMAGE_PER_IP: "2",
+      RATE_LIMIT_OG_IMAGE_GLOBAL: "4",
+      RATE_LIMIT_SEARCH_PER_IP: "1",
+      RATE_LIMIT_ALLOWLIST: "10.0.0.0/8",
+      TRUST_PROXY: "loopback",
+      RENDER_CONCURRENCY: "1",
+      RENDER_MAX_QUEUE: "0",
+    },
+  );
+});
+
+after(() => testApp.close());
+
+// Rendering the QR code alone needs no JORFSearch call
+const QR_PATH = "/qrcode?function_tag=prefet&verify=false&frame=false";
+
+const from = (ip: string) => ({ "X-Forwarded-For": ip });
+
+describe("rate limiting", () => {
+  it("limits each client and reports its budget", async () => {
+    for (let request = 1; request <= 3; request++) {
+      const res = await testApp.get(QR_PATH, from("192.0.2.1"));
+      assert.equal(res.status, 200);
+      assert.equal(res.headers.get("ratelimit-limit"), "3");
+      assert.equal(res.headers.get("ratelimit-remaining"), String(3 - request));
+      assert.equal(res.headers.get("ratelimit-policy"), "3;w=60, 5;w=60");
+    }
+
+    const res = await testApp.get(QR_PATH, from("192.0.2.1"));
+    assert.equal(res.status, 429);
+    assert.ok(Number(res.headers.get("retry-after")) > 0);
+  });
+
+  it("limits all clients together", async () => {
+    assert.equal((await testApp.get(QR_PATH, from("192.0.2.2"))).status, 200);
+    assert.equal((await testApp.get(QR_PATH, from("192.0.2.3"))).status, 200);
+    assert.equal((await testApp.get(QR_PATH, from("192.0.2.4"))).status, 429);
+  });
+
+  it("gives link preview cards their own budget", async () => {
+    const res = await testApp.get(
+      "/og-image?function_tag=prefet",
+      from("192.0.2.5"),
+    );
+    assert.notEqual(res.status, 429);
+    assert.equal(res.headers.get("ratelimit-policy"), "2;w=60, 4;w=60");
+    assert.equal(res.headers.get("ratelimit-remaining"), "1");
+  });
+
+  it("limits the searches, which may call JORFSearch", async () => {
+    const path = "/api/search?q=prefet";
+    assert.equal((await testApp.get(path, from("192.0.2.6"))).status, 200);
+    const res = await testApp.get(path, from("192.0.2.6"));
+    assert.equal(res.status, 429);
+    assert.equal(res.headers.get("ratelimit-policy"), "1;w=60, 300;w=60");
+  });
+
+  it("gives the click beacons their own budget", async () => {
+    const res = await testApp.post(
+      "/click?messenger=telegram&function_tag=prefet",
+    );
+    assert.equal(res.status, 204);
+    assert.equal(res.headers.get("ratelimit-remaining"), "2");
+  });
+
+  it("never limits allowlisted callers", async () => {
+    const res = await testApp.get(QR_PATH, from("10.1.2.3"));
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("ratelimit-limit"), null);
+  });
+});
+
+describe("render concurrency", () => {
+  it("answers 503 in JSON, never cached, when every slot is taken", async () => {
+    const responses = await Promise.all(
+      ["210", "220", "230"].map((size) =>
+        testApp.get(`${QR_PATH}&size=${size}`, from("10.0.0.1")),
+      ),
+    );
+    const busy = responses.find(({ status }) => status === 503);
+    assert.ok(busy !== undefined);
+    assert.match(busy.headers.get("content-type") ?? "", /application\/json/);
+    // Only the weak ETag Express gives every JSON body, not the image one
+    assert.doesNotMatch(busy.headers.get("etag") ?? "", /^"/);
+    assert.equal(busy.headers.get("cache-control"), null);
+    assert.ok(Number(busy.headers.get("retry-after")) > 0);
+  });
+});
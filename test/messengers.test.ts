@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { configuredMessengers, messengerConfigKeys } from "../messengers.ts";
+import { JEAN_DUPONT_FIXTURES, startTestApp, TestApp } from "./testApp.ts";
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp(JEAN_DUPONT_FIXTURES, {
+    SIGNAL_BOT_PHONE_NUMBER: "+33612345678",
+    MATRIX_BOT_USERNAME: "joel:matrix.org",
+    TCHAP_BOT_USERNAME: "joel:agent.tchap.gouv.fr",
+  });
+});
+
+after(() => testApp.close());
+
+describe("Signal", () => {
+  it("shows a button copying the command on the landing page", async () => {
+    const html = await (await testApp.get("/?name=Jean Dupont")).text();
+    const button = /<a\s+id="signal-link"[^>]*>/.exec(html)?.[0] ?? "";
+    assert.match(button, /href="https:\/\/signal\.me\/#p\/\+33612345678"/);
+    assert.match(button, /data-command="Rechercher Jean Dupont"/);
+  });
+
+  it("gives the command to copy before opening Signal", async () => {
+    const res = await testApp.get("/signal?name=Jean Dupont");
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    assert.match(html, /value="Rechercher Jean Dupont"/);
+    assert.match(html, /href="https:\/\/signal\.me\/#p\/\+33612345678"/);
+    await testApp.waitForUmamiEvent("/link-signal");
+  });
+});
+
+describe("Matrix and Tchap", () => {
+  it("carry the command through a page to copy it", async () => {
+    for (const [path, link] of [
+      ["/matrix", "https://matrix.to/#/@joel:matrix.org"],
+      ["/tchap", "https://www.tchap.gouv.fr/#/user/@joel:agent.tchap.gouv.fr"],
+    ]) {
+      const res = await testApp.get(
+        `${path}?function_tag=prefet&function_tag_value=Bretagne&verify=false`,
+      );
+      assert.equal(res.status, 200);
+      assert.match(res.headers.get("content-type") ?? "", /text\/html/);
+      const html = await res.text();
+      assert.match(html, /value="RechercherF prefet=&quot;Bretagne&quot;"/);
+      assert.ok(html.includes(`href="${link}"`));
+    }
+  });
+
+  it("open the bot directly without a target", async () => {
+    const res = await testApp.get("/matrix");
+    assert.equal(res.status, 302);
+    assert.equal(
+      res.headers.get("location"),
+      "https://matrix.to/#/@joel:matrix.org",
+    );
+  });
+});
+
+describe("messenger registry", () => {
+  it("enables the configured messengers in display order", () => {
+    const messengers = configuredMessengers({
+      SIGNAL_BOT_PHONE_NUMBER: "+33612345678",
+      TELEGRAM_BOT_NAME: "joel_test_bot",
+      WHATSAPP_BOT_PHONE_NUMBER: "",
+    });
+    assert.deepEqual(
+      messengers.map(({ id }) => id),
+      ["telegram", "signal"],
+    );
+    assert.equal(
+      messengers[0].link("Bonjour JOEL!"),
+      "https://t.me/joel_test_bot?text=Bonjour%20JOEL!",
+    );
+    assert.ok(messengerConfigKeys().includes("TCHAP_BOT_USERNAME"));
+  });
+
+  it("shows a button per configured messenger on the landing page", async () => {
+    const html = await (await testApp.get("/?name=Jean Dupont")).text();
+    assert.deepEqual(
+      [...html.matchAll(/id="(\w+)-link"/g)].map(([, id]) => id),
+      ["tchap", "telegram", "matrix", "signal"],
+    );
+  });
+
+  it("sends a messenger that is not configured to the home website", async () => {
+    const res = await testApp.get("/whatsapp?name=Jean Dupont");
+    assert.equal(res.status, 302);
+    assert.equal(res.headers.get("location"), "https://joel-officiel.fr");
+  });
+});
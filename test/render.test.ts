@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import sharp from "sharp";
+import {
+  decodeQrCode,
+  JEAN_DUPONT_FIXTURES,
+  startTestApp,
+  TestApp,
+} from "./testApp.ts";
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp(JEAN_DUPONT_FIXTURES);
+});
+
+after(() => testApp.close());
+
+const QR_PATH = "/qrcode?name=Jean Dupont&frame=false";
+
+describe("output formats", () => {
+  it("renders webp and svg images of the same link", async () => {
+    const link = encodeURI(`${testApp.APP_URL}?name=Jean Dupont`);
+    for (const [format, contentType] of [
+      ["webp", "image/webp"],
+      ["svg", "image/svg+xml"],
+    ]) {
+      const res = await testApp.get(`${QR_PATH}&format=${format}`);
+      assert.equal(res.status, 200);
+      assert.equal(res.headers.get("content-type"), contentType);
+      assert.equal(await decodeQrCode(await res.arrayBuffer()), link);
+    }
+  });
+
+  it("keeps the QR code of an svg as vector paths", async () => {
+    const res = await testApp.get(`${QR_PATH}&format=svg`);
+    const svg = await res.text();
+    assert.match(svg, /^<svg /);
+    assert.match(svg, /<path d="M/);
+    assert.match(
+      res.headers.get("content-security-policy") ?? "",
+      /^default-src 'none'/,
+    );
+  });
+
+  it("renders a pdf", async () => {
+    const res = await testApp.get("/qrcode?name=Jean Dupont&format=pdf");
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "application/pdf");
+    const pdf = Buffer.from(await res.arrayBuffer());
+    assert.equal(pdf.subarray(0, 5).toString(), "%PDF-");
+  });
+
+  it("rejects an unknown format", async () => {
+    const res = await testApp.get(`${QR_PATH}&format=gif`);
+    assert.equal(res.status, 400);
+    assert.match(
+      ((await res.json()) as { error: string }).error,
+      /png, webp, svg, pdf/,
+    );
+  });
+});
+
+describe("frame templates", () => {
+  it("renders a template at its size, or scaled to the requested width", async () => {
+    for (const [path, width, height] of [
+      ["/qrcode?name=Jean Dupont&template=poster_a4", 1240, 1754],
+      ["/qrcode?name=Jean Dupont&template=business_card&size=502", 502, 325],
+    ] as const) {
+      const res = await testApp.get(path);
+      assert.equal(res.status, 200);
+      const image = await res.arrayBuffer();
+      const metadata = await sharp(Buffer.from(image)).metadata();
+      assert.deepEqual([metadata.width, metadata.height], [width, height]);
+      assert.equal(
+        await decodeQrCode(image),
+        encodeURI(`${testApp.APP_URL}?name=Jean Dupont`),
+      );
+    }
+  });
+
+  it("renders every template at the smallest size", async () => {
+    const { FRAME_TEMPLATES } = await import("../frame.utils.ts");
+    for (const template of Object.keys(FRAME_TEMPLATES))
+      for (const format of ["png", "webp"]) {
+        const res = await testApp.get(
+          `/qrcode?name=Jean Dupont&template=${template}&format=${format}&size=64`,
+        );
+        assert.equal(res.status, 200, `${template} ${format}`);
+        const image = Buffer.from(await res.arrayBuffer());
+        assert.equal((await sharp(image).metadata()).width, 64);
+      }
+  });
+
+  it("rejects an unknown template, or a template without frame", async () => {
+    for (const path of [
+      "/qrcode?name=Jean Dupont&template=banner",
+      "/qrcode?name=Jean Dupont&template=sticker&frame=false",
+    ])
+      assert.equal((await testApp.get(path)).status, 400);
+  });
+
+  it("fits long captions in their box", async () => {
+    // Loaded once the app has read its configuration
+    const { fitCaption, FRAME_TEMPLATES } = await import("../frame.utils.ts");
+    const { caption } = FRAME_TEMPLATES.classic;
+    assert.deepEqual(fitCaption("Jean Dupont", caption), {
+      fontSize: caption.fontSize,
+      lines: ["Jean Dupont"],
+    });
+
+    const long = fitCaption(
+      "Directeurs d'administration centrale (Ministère de l'Économie)",
+      caption,
+    );
+    assert.ok(long.fontSize < caption.fontSize);
+    assert.ok(long.lines.length <= caption.maxLines);
+
+    const truncated = fitCaption("Jean-Baptiste ".repeat(20), caption);
+    assert.equal(truncated.fontSize, caption.minFontSize);
+    assert.equal(truncated.lines.length, caption.maxLines);
+    assert.match(truncated.lines[caption.maxLines - 1], /…$/);
+  });
+});
+
+describe("styling", () => {
+  it("draws the modules in the requested colours", async () => {
+    const res = await testApp.get(
+      `${QR_PATH}&dark=%231d3557&light=%23f1faee&margin=0&logo=false`,
+    );
+    assert.equal(res.status, 200);
+    // With no margin, the corner is the dark ring of a finder pattern
+    const { data } = await sharp(Buffer.from(await res.arrayBuffer()))
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    assert.deepEqual([...data.subarray(0, 3)], [0x1d, 0x35, 0x57]);
+  });
+
+  it("explains an invalid style", async () => {
+    const res = await testApp.get(`${QR_PATH}&style=hearts&lang=en`);
+    assert.equal(res.status, 400);
+    assert.match(((await res.json()) as { error: string }).error, /style/);
+  });
+});
+
+describe("image cache", () => {
+  it("revalidates an image with its ETag", async () => {
+    const res = await testApp.get(QR_PATH);
+    assert.equal(res.status, 200);
+    const etag = res.headers.get("etag") ?? "";
+    assert.match(etag, /^"/);
+    assert.equal(res.headers.get("cache-control"), "public, max-age=86400");
+
+    // Otherwise fetch adds Cache-Control: no-cache to a conditional request
+    const revalidated = await testApp.get(QR_PATH, {
+      "If-None-Match": etag,
+      "Cache-Control": "max-age=0",
+    });
+    assert.equal(revalidated.status, 304);
+    assert.equal(
+      revalidated.headers.get("cache-control"),
+      "public, max-age=86400",
+    );
+    assert.equal((await revalidated.arrayBuffer()).byteLength, 0);
+  });
+
+  it("keys the image by its link and rendering options", async () => {
+    const etags = await Promise.all(
+      [QR_PATH, `${QR_PATH}&dark=%23123456`, `${QR_PATH}&format=webp`].map(
+        async (path) => (await testApp.get(path)).headers.get("etag"),
+      ),
+    );
+    assert.equal(new Set(etags).size, 3);
+    assert.equal((await testApp.get(QR_PATH)).headers.get("etag"), etags[0]);
+  });
+});
@@ -0,0 +1,483 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, before, describe, it } from "node:test";
+import sharp from "sharp";
+import { decodeQrCode, JEAN_DUPONT, startTestApp, TestApp } from "./testApp.ts";
+
+// Accept header of a browser opening a scanned link
+const BROWSER = { Accept: "text/html,application/xhtml+xml,*/*;q=0.8" };
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp({
+    people: {
+      "Jean Dupont": { json: JEAN_DUPONT },
+      // Inverted name: JORFSearch redirects to its page in the correct format
+      "Dupont Jean": { redirect: "/name/Jean Dupont" },
+      "Personne Inconnue": { json: [] },
+      // Two people: JORFSearch also matches close first names
+      "Martin Durand": {
+        json: [
+          {
+            prenom: "Martin",
+            nom: "Durand",
+            sexe: "M",
+            source_date: "2023-01-10",
+            prefet: "Bretagne",
+            organisations: [{ nom: "Préfecture de Bretagne" }],
+          },
+          {
+            prenom: "Martine",
+            nom: "Durand",
+            sexe: "F",
+            source_date: "2024-03-15",
+            recteur: "Lyon",
+          },
+        ],
+      },
+      "Erreur Texte": { text: "Erreur" },
+      "Reponse Nulle": { json: null },
+    },
+    tags: {
+      prefet: { json: JEAN_DUPONT },
+      'ambassadeur="Italie"': { json: JEAN_DUPONT },
+      cabinet: { json: JEAN_DUPONT },
+    },
+    organisations: {
+      Q42: [{ name: "Conseil d'État", id: "Q42" }],
+    },
+  });
+});
+
+after(() => testApp.close());
+
+describe("landing page", () => {
+  it("shows a person found on JORFSearch", async () => {
+    const res = await testApp.get("/?name=Jean Dupont");
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    assert.match(html, /Jean Dupont/);
+    assert.match(html, /t\.me\/joel_test_bot/);
+    await testApp.waitForUmamiEvent("/link-people");
+  });
+
+  it("queries JORFSearch again with the redirected name", async () => {
+    const res = await testApp.get("/?name=Dupont Jean");
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), /Suivre Jean Dupont sur JOEL/);
+    assert.ok(
+      testApp.upstream.requests.includes("/name/Jean Dupont?format=JSON"),
+    );
+    await testApp.waitForUmamiEvent("/jorfsearch-request-people-formatted");
+  });
+
+  for (const [name, kind] of [
+    ["Personne Inconnue", "an empty"],
+    ["Erreur Texte", "a string"],
+    ["Reponse Nulle", "a null"],
+  ])
+    it(`reports ${kind} JORFSearch response as not found`, async () => {
+      const res = await testApp.get(`/?name=${name}`);
+      assert.equal(res.status, 404);
+      assert.equal(((await res.json()) as { code: string }).code, "not_found");
+    });
+
+  it("escapes an unverified name", async () => {
+    const res = await testApp.get(
+      "/?name=<img src=x onerror=alert(1)> Dupont&verify=false",
+    );
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    assert.doesNotMatch(html, /<img src=x/);
+    assert.match(html, /&lt;img src=x onerror=alert\(1\)&gt; Dupont/);
+  });
+
+  it("sends a Content-Security-Policy and security headers", async () => {
+    const res = await testApp.get("/?name=Jean Dupont");
+    const policy = res.headers.get("content-security-policy") ?? "";
+    assert.match(policy, /script-src 'self' 'sha256-/);
+    assert.match(policy, /frame-ancestors 'none'/);
+    assert.equal(res.headers.get("x-content-type-options"), "nosniff");
+  });
+
+  it("renders the analytics script and home links from the config", async () => {
+    const res = await testApp.get("/?name=Jean Dupont");
+    const html = await res.text();
+    assert.match(
+      html,
+      /<script async src="https:\/\/umami\.test\/script\.js" data-website-id="[^"]+"><\/script>/,
+    );
+    assert.match(
+      res.headers.get("content-security-policy") ?? "",
+      /script-src [^;]*https:\/\/umami\.test/,
+    );
+    assert.match(html, /href="https:\/\/joel-officiel\.fr\/#team"/);
+    assert.doesNotMatch(html, /www\.joel-officiel\.fr|hellofabien/);
+
+    const builder = await testApp.get("/builder");
+    assert.match(await builder.text(), /href="https:\/\/joel-officiel\.fr"/);
+  });
+
+  it("shows an organisation from its WikidataId", async () => {
+    const res = await testApp.get("/?organisation_id=q42");
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), /Conseil d&#39;État/);
+  });
+
+  it("shows a function tag", async () => {
+    const res = await testApp.get("/?function_tag=prefet");
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), /Préfets/);
+  });
+
+  it("shows a function tag with its value", async () => {
+    const res = await testApp.get(
+      "/?function_tag=ambassadeur&function_tag_value=Italie",
+    );
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    assert.match(html, /Ambassadeurs \(Italie\)/);
+    assert.match(html, /RechercherF%20ambassadeur%3D%22Italie%22/);
+    assert.ok(
+      testApp.upstream.requests.includes(
+        '/tag/ambassadeur="Italie"?format=JSON',
+      ),
+    );
+
+    const missing = await testApp.get(
+      "/?function_tag=ambassadeur&function_tag_value=Espagne",
+    );
+    assert.equal(missing.status, 404);
+    const withoutTag = await testApp.get(
+      "/?name=Jean Dupont&function_tag_value=Italie",
+    );
+    assert.equal(withoutTag.status, 400);
+  });
+
+  it("follows a tag missing from the catalogue once found on JORFSearch", async () => {
+    const res = await testApp.get("/?function_tag=cabinet&verify=false");
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), />cabinet<\/span/);
+    assert.ok(testApp.upstream.requests.includes("/tag/cabinet?format=JSON"));
+
+    const typo = await testApp.get("/?function_tag=recteru");
+    assert.equal(typo.status, 400);
+    const body = (await typo.json()) as { code: string; suggestions: string[] };
+    assert.equal(body.code, "unknown_function_tag");
+    assert.equal(body.suggestions[0], "recteur");
+  });
+
+  it("rejects exclusive follow parameters", async () => {
+    for (const path of [
+      "/?name=Jean Dupont&organisation_id=Q42",
+      "/qrcode?name=Jean Dupont&function_tag=prefet",
+    ]) {
+      const res = await testApp.get(path);
+      assert.equal(res.status, 400);
+      assert.equal(
+        ((await res.json()) as { code: string }).code,
+        "exclusive_parameters",
+      );
+    }
+  });
+
+  it("shows browsers an error page with a search box", async () => {
+    const res = await testApp.get("/?name=Personne Inconnue", BROWSER);
+    assert.equal(res.status, 404);
+    assert.match(res.headers.get("content-type") ?? "", /text\/html/);
+    const html = await res.text();
+    assert.match(html, /Introuvable au Journal Officiel/);
+    assert.match(html, /<form action="\/" method="get"/);
+    assert.match(html, /value="Personne Inconnue"/);
+    assert.match(html, /href="https:\/\/joel-officiel\.fr"/);
+  });
+
+  it("shows browsers an error page for exclusive parameters", async () => {
+    const res = await testApp.get(
+      "/?name=Jean Dupont&organisation_id=Q42&lang=en",
+      BROWSER,
+    );
+    assert.equal(res.status, 400);
+    const html = await res.text();
+    assert.match(html, /This link is not valid/);
+    assert.match(html, /Parameters name, organisation_id and function_tag/);
+  });
+
+  it("redirects to the home website without a target", async () => {
+    const res = await testApp.get("/");
+    assert.equal(res.status, 302);
+    assert.equal(res.headers.get("location"), "https://joel-officiel.fr");
+  });
+});
+
+describe("disambiguation", () => {
+  it("asks browsers which person to follow", async () => {
+    const res = await testApp.get("/?name=Martin Durand", BROWSER);
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    assert.match(html, /Préfet, Préfecture de Bretagne/);
+    assert.match(html, /Rectrice/);
+    assert.ok(
+      html.includes(
+        `href="/?name=Martine%20Durand&amp;identity=Martine%20Durand"`,
+      ),
+    );
+  });
+
+  it("lists the candidates to API clients", async () => {
+    const res = await testApp.get("/qrcode?name=Martin Durand");
+    assert.equal(res.status, 409);
+    const body = (await res.json()) as {
+      code: string;
+      candidates: { prenom: string }[];
+    };
+    assert.equal(body.code, "ambiguous");
+    assert.deepEqual(
+      body.candidates.map(({ prenom }) => prenom),
+      ["Martin", "Martine"],
+    );
+  });
+
+  it("follows the chosen person", async () => {
+    const res = await testApp.get(
+      "/?name=Martin Durand&identity=Martine Durand",
+    );
+    assert.equal(res.status, 200);
+    const canonical = encodeURI(
+      `${testApp.APP_URL}?name=Martine Durand&identity=Martine Durand`,
+    ).replaceAll("&", "&amp;");
+    assert.ok(
+      (await res.text()).includes(
+        `<link rel="canonical" href="${canonical}" />`,
+      ),
+    );
+  });
+});
+
+interface Suggestions {
+  query: string;
+  suggestions: {
+    type: string;
+    label: string;
+    followArg: string;
+    detail?: string;
+    link_url: string;
+  }[];
+}
+
+describe("/api/search", () => {
+  it("suggests people, organisations and function tags", async () => {
+    const people = (await (
+      await testApp.get("/api/search?q= martin durand ")
+    ).json()) as Suggestions;
+    assert.equal(people.query, "martin durand");
+    assert.deepEqual(
+      people.suggestions.map(({ type, label }) => [type, label]),
+      [
+        ["people", "Martin Durand"],
+        ["people", "Martine Durand"],
+      ],
+    );
+    assert.equal(people.suggestions[1].detail, "Rectrice");
+    assert.equal(
+      people.suggestions[1].link_url,
+      encodeURI(
+        `${testApp.APP_URL}?name=Martine Durand&identity=Martine Durand`,
+      ),
+    );
+
+    const organisation = (await (
+      await testApp.get("/api/search?q=q42")
+    ).json()) as Suggestions;
+    assert.deepEqual(organisation.suggestions[0], {
+      type: "organisation",
+      label: "Conseil d'État",
+      followArg: "Q42",
+      link_url: `${testApp.APP_URL}?organisation_id=Q42`,
+      qr_url: `${testApp.APP_URL}/qrcode?organisation_id=Q42`,
+    });
+
+    const tags = (await (
+      await testApp.get("/api/search?q=préfe")
+    ).json()) as Suggestions;
+    assert.ok(
+      tags.suggestions.some(
+        ({ type, followArg }) =>
+          type === "function_tag" && followArg === "prefet",
+      ),
+    );
+  });
+
+  it("needs a query of two characters", async () => {
+    assert.equal((await testApp.get("/api/search")).status, 400);
+    const res = await testApp.get("/api/search?q=a");
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { query: "a", suggestions: [] });
+  });
+});
+
+describe("/builder", () => {
+  it("serves the builder with its script allowed by the policy", async () => {
+    const res = await testApp.get("/builder");
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type") ?? "", /text\/html/);
+    const html = await res.text();
+    const script = /<script>([\s\S]*?)<\/script>/.exec(html)?.[1] ?? "";
+    assert.match(script, /\/api\/search\?q=/);
+    const hash = crypto.createHash("sha256").update(script).digest("base64");
+    assert.ok(
+      (res.headers.get("content-security-policy") ?? "").includes(
+        `'sha256-${hash}'`,
+      ),
+    );
+    await testApp.waitForUmamiEvent("/builder");
+  });
+});
+
+describe("messenger links", () => {
+  it("pre-fills the whole start command", async () => {
+    const res = await testApp.get(
+      "/telegram?function_tag=prefet&function_tag_value=Europe %26 Affaires&verify=false",
+    );
+    assert.equal(res.status, 302);
+    const location = new URL(res.headers.get("location") ?? "");
+    assert.equal(
+      location.origin + location.pathname,
+      "https://t.me/joel_test_bot",
+    );
+    assert.equal(
+      location.searchParams.get("text"),
+      'Bonjour JOEL! RechercherF prefet="Europe & Affaires"',
+    );
+  });
+});
+
+describe("/qrcode", () => {
+  it("encodes the landing page link of the target", async () => {
+    const res = await testApp.get("/qrcode?name=Jean Dupont&frame=false");
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "image/png");
+    assert.equal(
+      await decodeQrCode(await res.arrayBuffer()),
+      encodeURI(`${testApp.APP_URL}?name=Jean Dupont`),
+    );
+  });
+
+  it("encodes each parameter value of the link", async () => {
+    const res = await testApp.get(
+      "/qrcode?function_tag=prefet&function_tag_value=Europe %26 Affaires&verify=false&frame=false",
+    );
+    assert.equal(res.status, 200);
+    assert.equal(
+      await decodeQrCode(await res.arrayBuffer()),
+      `${testApp.APP_URL}?function_tag=prefet&function_tag_value=Europe%20%26%20Affaires`,
+    );
+  });
+
+  it("encodes the canonical link inside the frame", async () => {
+    const res = await testApp.get("/qrcode?name=Dupont Jean");
+    assert.equal(res.status, 200);
+    assert.equal(
+      await decodeQrCode(await res.arrayBuffer()),
+      encodeURI(`${testApp.APP_URL}?name=Jean Dupont`),
+    );
+    await testApp.waitForUmamiEvent("/qr-people");
+  });
+
+  it("rejects sizes out of bounds", async () => {
+    for (const size of ["100000", "10", "abc"]) {
+      const res = await testApp.get(`/qrcode?name=Jean Dupont&size=${size}`);
+      assert.equal(res.status, 400);
+    }
+  });
+
+  it("answers 404 when the target is not on JORFSearch", async () => {
+    const res = await testApp.get("/qrcode?name=Personne Inconnue");
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("link previews", () => {
+  it("describes the target in the Open Graph tags", async () => {
+    const html = await (await testApp.get("/?name=Dupont Jean")).text();
+    const canonical = encodeURI(`${testApp.APP_URL}?name=Jean Dupont`);
+    assert.ok(html.includes(`<link rel="canonical" href="${canonical}" />`));
+    assert.ok(
+      html.includes(
+        `<meta property="og:title" content="Suivre Jean Dupont sur JOEL - Journal Electronique" />`,
+      ),
+    );
+    assert.ok(
+      html.includes(
+        `<meta property="og:image" content="${encodeURI(`${testApp.APP_URL}/og-image?name=Jean Dupont`)}" />`,
+      ),
+    );
+  });
+
+  it("renders a 1200×630 card encoding the landing page link", async () => {
+    const res = await testApp.get("/og-image?name=Jean Dupont");
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "image/png");
+    const image = await res.arrayBuffer();
+    const { width, height } = await sharp(Buffer.from(image)).metadata();
+    assert.deepEqual([width, height], [1200, 630]);
+    assert.equal(
+      await decodeQrCode(image),
+      encodeURI(`${testApp.APP_URL}?name=Jean Dupont`),
+    );
+  });
+
+  it("answers 404 when the target is not on JORFSearch", async () => {
+    const res = await testApp.get("/og-image?name=Personne Inconnue");
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("locales", () => {
+  it("answers in French by default", async () => {
+    const res = await testApp.get("/?name=Jean", { "Accept-Language": "de" });
+    assert.equal(res.status, 400);
+    assert.match(
+      ((await res.json()) as { error: string }).error,
+      /Le paramètre name doit contenir au moins deux mots/,
+    );
+  });
+
+  it("follows Accept-Language", async () => {
+    const res = await testApp.get("/?name=Jean Dupont", {
+      "Accept-Language": "en-GB,en;q=0.9,fr;q=0.8",
+    });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("vary") ?? "", /Accept-Language/);
+    const html = await res.text();
+    assert.match(html, /<html lang="en">/);
+    assert.match(html, /Follow Jean Dupont on JOEL/);
+    assert.match(html, /Stay informed of the appointments of/);
+    assert.match(html, /t\.me\/joel_test_bot\?text=Hello%20JOEL!%20Rechercher/);
+  });
+
+  it("prefers the lang parameter", async () => {
+    const res = await testApp.get("/?name=Personne Inconnue&lang=en", {
+      "Accept-Language": "fr",
+    });
+    assert.equal(res.status, 404);
+    assert.deepEqual(await res.json(), {
+      code: "not_found",
+      error: 'No result found on JORFSearch for person "Personne Inconnue".',
+    });
+  });
+
+  it("translates the frame prefix", async () => {
+    const [fr, en] = await Promise.all(
+      ["fr", "en"].map((lang) =>
+        testApp.get(`/qrcode?name=Jean Dupont&lang=${lang}`),
+      ),
+    );
+    assert.notEqual(fr.headers.get("etag"), en.headers.get("etag"));
+    assert.notDeepEqual(
+      Buffer.from(await fr.arrayBuffer()),
+      Buffer.from(await en.arrayBuffer()),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createStatsCounter, OTHER_KEY, Stats } from "../stats.utils.ts";
+import {
+  decodeQrCode,
+  JEAN_DUPONT_FIXTURES,
+  startTestApp,
+  TestApp,
+} from "./testApp.ts";
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await startTestApp(JEAN_DUPONT_FIXTURES, { STATS_ENABLED: "true" });
+});
+
+after(() => testApp.close());
+
+describe("attribution", () => {
+  it("keeps the source in the link of the QR code", async () => {
+    const res = await testApp.get(
+      "/qrcode?name=Jean Dupont&frame=false&src=affiche-metro",
+    );
+    assert.equal(res.status, 200);
+    assert.equal(
+      await decodeQrCode(await res.arrayBuffer()),
+      encodeURI(`${testApp.APP_URL}?name=Jean Dupont&src=affiche-metro`),
+    );
+  });
+
+  it("rejects an invalid source", async () => {
+    for (const source of ["<affiche>", "__proto__", "constructor"]) {
+      const res = await testApp.get(`/qrcode?name=Jean Dupont&src=${source}`);
+      assert.equal(res.status, 400);
+      assert.equal(
+        ((await res.json()) as { code: string }).code,
+        "invalid_parameter",
+      );
+    }
+  });
+
+  it("sends the source as event data of the landing page", async () => {
+    const res = await testApp.get("/?name=Jean Dupont&src=tract_2025.06");
+    assert.equal(res.status, 200);
+    const html = await res.text();
+    const canonical = encodeURI(`${testApp.APP_URL}?name=Jean Dupont`);
+    assert.ok(html.includes(`<link rel="canonical" href="${canonical}" />`));
+    assert.ok(
+      html.includes(
+        `data-click-url="${encodeURI("/click?messenger=telegram&name=Jean Dupont&src=tract_2025.06").replaceAll("&", "&amp;")}"`,
+      ),
+    );
+
+    await testApp.waitForUmamiEvent("/link-people");
+    assert.ok(
+      testApp.upstream.umamiEventData.some(
+        (data) =>
+          data.followType === "people" &&
+          data.target === "Jean Dupont" &&
+          data.source === "tract_2025.06",
+      ),
+    );
+  });
+
+  it("counts the messenger chosen for a target", async () => {
+    const res = await testApp.post(
+      "/click?messenger=telegram&name=Jean Dupont&src=affiche-metro",
+    );
+    assert.equal(res.status, 204);
+    await testApp.waitForUmamiEvent("/click-telegram");
+
+    const stats = (await (await testApp.get("/stats")).json()) as Stats;
+    assert.equal(stats.events["/click-telegram"], 1);
+    assert.equal(stats.clicks.telegram["people:Jean Dupont"], 1);
+    assert.equal(stats.sources["affiche-metro"]["/click-telegram"], 1);
+  });
+
+  it("does not count the targets JORFSearch has not returned lately", async () => {
+    for (const path of [
+      "/click?messenger=telegram&name=Paul Inconnu",
+      "/click?messenger=telegram&function_tag=prefet&function_tag_value=Nulle part",
+    ])
+      assert.equal((await testApp.post(path)).status, 204);
+
+    const stats = (await (await testApp.get("/stats")).json()) as Stats;
+    assert.deepEqual(Object.keys(stats.clicks.telegram), [
+      "people:Jean Dupont",
+    ]);
+  });
+
+  it("rejects clicks on a messenger that is not configured", async () => {
+    const res = await testApp.post("/click?messenger=signal&name=Jean Dupont");
+    assert.equal(res.status, 400);
+  });
+});
+
+describe("stats counter", () => {
+  it("counts the keys beyond the limit together", async () => {
+    const counter = await createStatsCounter({ maxKeys: 2 });
+    for (const source of ["a", "b", "c", "d", "a"])
+      counter.record("/link-people", { source });
+    const { sources } = counter.snapshot();
+    assert.deepEqual(Object.keys(sources), ["a", "b", OTHER_KEY]);
+    assert.equal(sources.a["/link-people"], 2);
+    assert.equal(sources[OTHER_KEY]["/link-people"], 2);
+  });
+
+  it("keeps the counts off Object.prototype", async () => {
+    const counter = await createStatsCounter();
+    counter.record("/click-telegram", {
+      source: "__proto__",
+      followType: "people",
+      target: "Jean Dupont",
+      messenger: "telegram",
+    });
+    assert.equal(({} as Record<string, unknown>)["/click-telegram"], undefined);
+    assert.equal(counter.snapshot().sources.__proto__["/click-telegram"], 1);
+  });
+
+  it("saves the counts and reads them back", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "qr-stats-"));
+    const file = path.join(directory, "stats.json");
+    try {
+      const counter = await createStatsCounter({ file });
+      counter.record("/click-telegram", {
+        followType: "people",
+        target: "Jean Dupont",
+        messenger: "telegram",
+      });
+      await counter.flush();
+
+      const reloaded = await createStatsCounter({ file });
+      assert.deepEqual(reloaded.snapshot(), counter.snapshot());
+      assert.equal(
+        reloaded.snapshot().clicks.telegram["people:Jean Dupont"],
+        1,
+      );
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseQrStyle, QrStyle } from "../style.utils.ts";
+
+function errorKey(query: Record<string, unknown>): string | undefined {
+  const style = parseQrStyle(query);
+  return "error" in style ? style.error.key : undefined;
+}
+
+function styleOf(query: Record<string, unknown>): QrStyle {
+  const style = parseQrStyle(query);
+  assert.ok(!("error" in style), JSON.stringify(style));
+  return style;
+}
+
+describe("parseQrStyle", () => {
+  it("applies a preset under the explicit parameters", () => {
+    assert.deepEqual(styleOf({ preset: "monochrome", dark: "#333333" }), {
+      dark: "#333333",
+      light: "#ffffff",
+      logo: false,
+    });
+    assert.equal(errorKey({ preset: "toString" }), "error.preset_values");
+  });
+
+  it("validates colours, margin and module style", () => {
+    assert.equal(styleOf({ dark: "#1D3557" }).dark, "#1d3557");
+    assert.equal(errorKey({ dark: "blue" }), "error.colour_format");
+    assert.equal(errorKey({ margin: "11" }), "error.margin_bounds");
+    assert.equal(errorKey({ style: "hearts" }), "error.style_values");
+  });
+
+  it("rejects colours too close to be scanned", () => {
+    assert.equal(
+      errorKey({ dark: "#999999", light: "#aaaaaa" }),
+      "error.contrast",
+    );
+  });
+
+  it("shrinks the default logo to what the level recovers from", () => {
+    assert.deepEqual(styleOf({ ecl: "q" }), {
+      errorCorrectionLevel: "Q",
+      logoScale: 0.3,
+    });
+    assert.equal(styleOf({ ecl: "H" }).logoScale, undefined);
+  });
+
+  it("leaves out the default logo on low levels", () => {
+    for (const ecl of ["L", "M"]) assert.equal(styleOf({ ecl }).logo, false);
+  });
+
+  it("rejects a logo asked for beyond the level", () => {
+    assert.equal(
+      errorKey({ ecl: "M", logo: "true" }),
+      "error.ecl_too_low_for_logo",
+    );
+    assert.equal(
+      errorKey({ ecl: "L", logo_scale: "0.2" }),
+      "error.ecl_too_low_for_logo",
+    );
+    assert.equal(
+      errorKey({ ecl: "Q", logo_scale: "0.4" }),
+      "error.logo_scale_max",
+    );
+    assert.equal(styleOf({ ecl: "Q", logo_scale: "0.25" }).logoScale, 0.25);
+    assert.equal(errorKey({ logo_scale: "0.9" }), "error.logo_scale_bounds");
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileTemplate, trustedHtml } from "../template.utils.ts";
+
+describe("compileTemplate", () => {
+  it("escapes each occurrence for its context", () => {
+    const render = compileTemplate(
+      "page",
+      `<title>{NAME}</title><a href="{LINK}" title="{NAME}">{NAME}</a>{BLOCK}`,
+      ["NAME", "LINK", "BLOCK"],
+    );
+    assert.equal(
+      render({
+        NAME: `"><script>alert(1)</script>`,
+        LINK: "javascript:alert(1)",
+        BLOCK: trustedHtml("<hr />"),
+      }).html,
+      `<title>&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;</title>` +
+        `<a href="#" title="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">` +
+        `&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;</a><hr />`,
+    );
+  });
+
+  it("keeps replacement patterns of the values as text", () => {
+    const render = compileTemplate("page", "<p>{NAME}</p>", ["NAME"]);
+    assert.equal(render({ NAME: "$& $'" }).html, "<p>$&amp; $&#39;</p>");
+  });
+
+  it("detects missing and unexpected placeholders", () => {
+    assert.throws(
+      () => compileTemplate("page", "<p>{NAME}</p>", ["NAME", "LABEL"]),
+      /missing placeholders \{LABEL\}/,
+    );
+    assert.throws(
+      () => compileTemplate("page", "<p>{NAME} {LABEL}</p>", ["NAME"]),
+      /unexpected placeholder \{LABEL\}/,
+    );
+  });
+
+  it("rejects placeholders in scripts and unquoted attributes", () => {
+    assert.throws(
+      () =>
+        compileTemplate("page", "<script>const a = {NAME};</script>", ["NAME"]),
+      /inside a <script> element/,
+    );
+    assert.throws(
+      () => compileTemplate("page", "<img src={LINK} />", ["LINK"]),
+      /quoted attribute value/,
+    );
+  });
+
+  it("only accepts markup in element text", () => {
+    const render = compileTemplate("page", `<a title="{NAME}"></a>`, ["NAME"]);
+    assert.throws(() => render({ NAME: trustedHtml("<b>") }), /text only/);
+  });
+});
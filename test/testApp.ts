@@ -0,0 +1,110 @@
+import { AddressInfo } from "net";
+import jsQR from "jsqr";
+import sharp from "sharp";
+import {
+  FakeUpstream,
+  FakeUpstreamFixtures,
+  startFakeUpstream,
+} from "./fakeUpstream.ts";
+
+// JORFSearch record of the person most tests follow
+export const JEAN_DUPONT = [
+  {
+    prenom: "Jean",
+    nom: "Dupont",
+    sexe: "M",
+    source_date: "2024-05-02",
+    type_ordre: "nomination",
+  },
+];
+
+// Upstream that only knows Jean Dupont
+export const JEAN_DUPONT_FIXTURES: FakeUpstreamFixtures = {
+  people: { "Jean Dupont": { json: JEAN_DUPONT } },
+  tags: {},
+  organisations: {},
+};
+
+// Link encoded in a rendered image, undefined when no QR code is found
+export async function decodeQrCode(
+  image: ArrayBuffer | Buffer,
+): Promise<string | undefined> {
+  const { data, info } = await sharp(
+    image instanceof ArrayBuffer ? Buffer.from(image) : image,
+  )
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return jsQR(new Uint8ClampedArray(data), info.width, info.height)?.data;
+}
+
+export interface TestApp {
+  upstream: FakeUpstream;
+  APP_URL: string;
+  get: (path: string, headers?: Record<string, string>) => Promise<Response>;
+  post: (path: string, body?: unknown) => Promise<Response>;
+  waitForUmamiEvent: (event: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+/*
+ * Boot the app on a random port against a fake upstream. The app reads its
+ * configuration when imported, so each test file gets a single instance.
+ */
+export async function startTestApp(
+  fixtures: FakeUpstreamFixtures,
+  env: Record<string, string> = {},
+): Promise<TestApp> {
+  const upstream = await startFakeUpstream(fixtures);
+
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    JORFSEARCH_URL: upstream.url,
+    UMAMI_URL: upstream.url,
+    UMAMI_HOST: "umami.test",
+    UMAMI_ID: "test",
+    TELEGRAM_BOT_NAME: "joel_test_bot",
+    ...env,
+  });
+  const { app } = await import("../app.ts");
+  const { config } = await import("../config.ts");
+  const umami = await import("../umami.ts");
+
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://127.0.0.1:${String((server.address() as AddressInfo).port)}`;
+
+  // Percent escapes already in the path, such as %26 for &, are kept
+  const url = (path: string) =>
+    baseUrl + encodeURI(path).replace(/%25([0-9A-F]{2})/gi, "%$1");
+
+  return {
+    upstream,
+    APP_URL: config.appUrl,
+    get: (path, headers = {}) =>
+      fetch(url(path), { redirect: "manual", headers }),
+    // A body is sent as JSON
+    post: (path, body) =>
+      fetch(url(path), {
+        method: "POST",
+        ...(body !== undefined && {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      }),
+    // Umami events are sent in the background
+    async waitForUmamiEvent(event) {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        if (upstream.umamiEvents.includes(event)) return;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      throw new Error(`Umami event ${event} was not received`);
+    },
+    async close() {
+      await new Promise((resolve) => server.close(resolve));
+      // The events still being sent would fail once the upstream is closed
+      await umami.flush();
+      await upstream.close();
+    },
+  };
+}
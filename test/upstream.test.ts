@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createFileStore } from "../cache.utils.ts";
+import { startTestApp, TestApp } from "./testApp.ts";
+
+let testApp: TestApp;
+let cacheDir: string;
+
+before(async () => {
+  // A result cached before the outage, expired but still within its stale TTL
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "qr-jorfsearch-"));
+  await createFileStore(cacheDir).set("people:Ancien Resultat", {
+    value: [{ prenom: "Ancien", nom: "Resultat" }],
+    expiresAt: Date.now() - 1000,
+    staleUntil: Date.now() + 60 * 60 * 1000,
+  });
+
+  testApp = await startTestApp(
+    {
+      people: {
+        "Page Absente": { status: 404 },
+        ...Object.fromEntries(
+          ["A", "B", "C", "D", "E", "F"].map((letter) => [
+            `Requete ${letter}`,
+            { status: 400 },
+          ]),
+        ),
+        "Panne Serveur": { status: 500 },
+        "Autre Panne": { status: 502 },
+        "Serveur Bloque": { hang: true },
+        "Ancien Resultat": { status: 503 },
+      },
+      tags: {},
+      organisations: {},
+    },
+    { JORFSEARCH_TIMEOUT_MS: "100", JORFSEARCH_CACHE_DIR: cacheDir },
+  );
+});
+
+after(async () => {
+  await testApp.close();
+  await fs.rm(cacheDir, { recursive: true });
+});
+
+function requestCount(path: string) {
+  return testApp.upstream.requests.filter((request) => request === path).length;
+}
+
+describe("JORFSearch outage", () => {
+  it("reports a 404 as not found, without retrying", async () => {
+    const res = await testApp.get("/qrcode?name=Page Absente");
+    assert.equal(res.status, 404);
+    assert.equal(requestCount("/name/Page Absente?format=JSON"), 1);
+  });
+
+  it("reports other 4xx answers as not found, without opening the circuit", async () => {
+    for (const letter of ["A", "B", "C", "D", "E", "F"]) {
+      const res = await testApp.get(`/qrcode?name=Requete ${letter}`);
+      assert.equal(res.status, 404);
+    }
+    assert.equal(requestCount("/name/Requete A?format=JSON"), 1);
+    const status = await testApp.get("/status/upstream");
+    assert.equal(status.status, 200);
+    const { jorfsearch } = (await status.json()) as {
+      jorfsearch: { state: string };
+    };
+    assert.equal(jorfsearch.state, "closed");
+  });
+
+  it("retries, then shows a page to try again on the landing page", async () => {
+    const res = await testApp.get("/?name=Panne Serveur", {
+      Accept: "text/html,application/xhtml+xml,*/*;q=0.8",
+    });
+    assert.equal(res.status, 503);
+    assert.equal(res.headers.get("retry-after"), "30");
+    assert.match(res.headers.get("content-type") ?? "", /text\/html/);
+    assert.match(await res.text(), /momentanément indisponible/);
+    assert.equal(requestCount("/name/Panne Serveur?format=JSON"), 3);
+  });
+
+  it("answers 503 rather than not found on /qrcode", async () => {
+    const res = await testApp.get("/qrcode?name=Panne Serveur");
+    assert.equal(res.status, 503);
+    assert.equal(
+      ((await res.json()) as { code: string }).code,
+      "upstream_unavailable",
+    );
+  });
+
+  it("gives up on a hung JORFSearch after the timeout", async () => {
+    const started = Date.now();
+    const res = await testApp.get("/qrcode?name=Serveur Bloque");
+    assert.equal(res.status, 503);
+    assert.ok(Date.now() - started < 3000);
+  });
+
+  it("answers 503 on /api/search", async () => {
+    const res = await testApp.get("/api/search?q=Autre Panne");
+    assert.equal(res.status, 503);
+  });
+
+  it("opens the circuit and stops calling JORFSearch", async () => {
+    const res = await testApp.get("/qrcode?name=Autre Panne");
+    assert.equal(res.status, 503);
+
+    const status = await testApp.get("/status/upstream");
+    assert.equal(status.status, 503);
+    const { jorfsearch } = (await status.json()) as {
+      jorfsearch: { state: string };
+    };
+    assert.equal(jorfsearch.state, "open");
+
+    const before = requestCount("/name/Autre Panne?format=JSON");
+    assert.equal((await testApp.get("/?name=Autre Panne")).status, 503);
+    assert.equal(requestCount("/name/Autre Panne?format=JSON"), before);
+  });
+
+  it("serves an expired result while JORFSearch is down", async () => {
+    const res = await testApp.get("/?name=Ancien Resultat");
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), /Suivre Ancien Resultat sur JOEL/);
+  });
+});
@@ -1,16 +1,46 @@
 import axios from "axios";
+import { MessengerId } from "./messengers.ts";
+import { config } from "./config.ts";
+import { FollowType } from "./followTarget.ts";
+import type { StatsCounter } from "./stats.utils.ts";
 
-export const log = (args: { event: UmamiEvent; data?: object }) => {
-  if (process.env.NODE_ENV === "development") {
-    console.log("Umami event", args.event);
+// Attribution of an event: the link that was opened, never the visitor
+export interface EventData {
+  followType?: FollowType;
+  target?: string; // canonical value of the name, organisation_id or function_tag parameter
+  source?: string; // src parameter of the link
+  messenger?: MessengerId;
+}
+
+// Local counters, when enabled, also receive every event
+let localStats: StatsCounter | undefined;
+
+export function setLocalStats(counter: StatsCounter | undefined) {
+  localStats = counter;
+}
+
+// Events still being sent, for a shutdown to wait for
+const pendingEvents = new Set<Promise<void>>();
+
+export async function flush(): Promise<void> {
+  await Promise.all(pendingEvents);
+}
+
+export const log = (args: { event: UmamiEvent; data?: EventData }) => {
+  localStats?.record(args.event, args.data);
+
+  // Unset in development, or when the local stats replace Umami
+  const { umami } = config;
+  if (umami === undefined) {
+    if (config.isDev) console.log("Umami event", args.event, args.data ?? {});
     return;
   }
 
-  const endpoint = `https://${String(process.env.UMAMI_HOST)}/api/send`;
+  const endpoint = `${umami.url}/api/send`;
   const payload = {
     payload: {
-      hostname: process.env.UMAMI_HOST,
-      website: process.env.UMAMI_ID,
+      hostname: umami.host,
+      website: umami.id,
       name: args.event,
       data: { ...args.data, messageApp: "qr-gateway" },
     },
@@ -23,13 +53,21 @@ export const log = (args: { event: UmamiEvent; data?: object }) => {
     },
   };
 
-  void axios.post(endpoint, payload, options).catch((error: unknown) => {
-    console.log(error);
-  });
+  const sent = axios
+    .post(endpoint, payload, options)
+    .then(
+      () => undefined,
+      (error: unknown) => {
+        console.log(error);
+      },
+    )
+    .finally(() => pendingEvents.delete(sent));
+  pendingEvents.add(sent);
 };
 
 export default {
   log,
+  flush,
 };
 
 export type UmamiEvent =
@@ -37,15 +75,18 @@ export type UmamiEvent =
   | "/qr-organisation"
   | "/qr-tag"
   | "/qr-default"
+  | "/qr-batch"
+  | "/qr-sheet"
+  | "/og-image"
   | "/link-people"
+  | "/link-people-disambiguation"
   | "/link-organisation"
   | "/link-tag"
   | "/link-default"
-  | "/link-whatsapp"
-  | "/link-matrix"
-  | "/link-tchap"
-  | "/link-signal"
-  | "/link-telegram"
+  | "/api-search"
+  | "/builder"
+  | `/link-${MessengerId}`
+  | `/click-${MessengerId}`
   | "/jorfsearch-request-people"
   | "/jorfsearch-request-people-formatted"
   | "/jorfsearch-request-tag"